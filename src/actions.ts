@@ -1,5 +1,5 @@
 import { VanessaEditor } from "./vanessa-editor";
-import { VanessaEditorEvent, IVanessaAction } from "./common";
+import { VanessaEditorEvent, VanessaEditorLocation, IVanessaAction } from "./common";
 import { VanessaGherkinProvider } from "./languages/turbo-gherkin/provider";
 
 interface IVanessaCommand {
@@ -41,9 +41,37 @@ export class ActionManager {
       }
       return service._original_open(target, options);
     };
+    //@ts-ignore
+    let editorService = this.editor._codeEditorService;
+    if (editorService._original_openCodeEditor) return;
+    editorService._original_openCodeEditor = editorService.openCodeEditor;
+    editorService.openCodeEditor = (input: any, source: any, sideBySide?: boolean) => {
+      const scheme = input.resource && input.resource.scheme;
+      if (scheme === "import" || scheme === "scenario") {
+        const owner = VanessaEditor.editors.filter(e => e.editor === source)[0];
+        const selection = input.options && input.options.selection;
+        const data: VanessaEditorLocation = {
+          file: input.resource.path,
+          line: selection ? selection.startLineNumber : 1,
+        };
+        if (input.resource.fragment) data.key = input.resource.fragment;
+        const event = scheme === "import" ? VanessaEditorEvent.ON_IMPORT_CLICK : VanessaEditorEvent.ON_SCENARIO_CLICK;
+        if (owner) {
+          owner.fireEvent(event, JSON.stringify(data));
+          return Promise.resolve(null);
+        }
+      }
+      return editorService._original_openCodeEditor(input, source, sideBySide);
+    };
   }
 
   public dispose(): void {
+    //@ts-ignore
+    let editorService = this.editor._codeEditorService;
+    if (editorService._original_openCodeEditor && VanessaEditor.editors.length == 0) {
+      editorService.openCodeEditor = editorService._original_openCodeEditor;
+      delete editorService._original_openCodeEditor;
+    }
     this.editor = null;
   }
 
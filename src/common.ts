@@ -35,8 +35,18 @@ export enum VanessaEditorEvent {
   ON_TAB_SELECT = "ON_TAB_SELECT",
   ON_HREF_CLICK = "ON_HREF_CLICK",
   ON_LINK_CLICK = "ON_LINK_CLICK",
+  ON_SCENARIO_CLICK = "ON_SCENARIO_CLICK", // VanessaEditorLocation
+  ON_IMPORT_CLICK = "ON_IMPORT_CLICK", // VanessaEditorLocation with key
   ON_MARK_CLICK = "ON_MARK_CLICK",
   PRESS_CTRL_S = "PRESS_CTRL_S",
+  DOCUMENT_SYMBOLS = "DOCUMENT_SYMBOLS",
+  ON_WORKER_ERROR = "ON_WORKER_ERROR",
+}
+
+export interface VanessaEditorLocation {
+  file: string;
+  line: number;
+  key?: string;
 }
 
 export interface VanessaEditorMessage {
@@ -10,6 +10,41 @@ export function getLineMaxColumn(line: string): number {
   return lastNonWhitespaceIndex(line) + 2;
 }
 
+export interface VATableCell {
+  text: string;
+  startColumn: number;
+  endColumn: number;
+}
+
+export function getTableCells(line: string): VATableCell[] {
+  const result: VATableCell[] = [];
+  let start = line.indexOf("|");
+  if (start < 0) return result;
+  let quote: string = undefined;
+  let empty = true;
+  for (let i = start + 1; i < line.length; i++) {
+    const char = line.charAt(i);
+    if (char == "\\") { i++; continue; }
+    if (quote) { if (char == quote) quote = undefined; continue; }
+    if (empty && (char == '"' || char == "'")) quote = char;
+    if (char != "|") { if (!/\s/.test(char)) empty = false; continue; }
+    const text = line.substring(start + 1, i);
+    const offset = text.search(/\S|$/);
+    const trimmed = text.trim();
+    const startColumn = start + 2 + offset;
+    result.push({ text: trimmed, startColumn, endColumn: startColumn + trimmed.length });
+    start = i;
+    empty = true;
+  }
+  return result;
+}
+
+export const completionCommandId = "vanessa.completion.accept";
+
+export function escapeSnippet(text: string): string {
+  return text.replace(/[\\$}]/g, "\\$&");
+}
+
 export interface IWorkerContext {
   matcher: KeywordMatcher;
   metatags: string[];
@@ -17,6 +52,10 @@ export interface IWorkerContext {
   keypairs: any;
   elements: any;
   variables: any;
+  scenarios: any;
+  tags: any;
+  rules: any;
+  stats: any;
   messages: any;
 }
 
@@ -24,11 +63,17 @@ export interface IVanessaModel
   extends monaco.editor.ITextModel {
   stepDecorations?: string[],
   workerVersionId: number,
+  workerListeners?: monaco.IDisposable[],
   savedVersionId: number,
   resetModified: Function,
   isModified: Function,
 }
 
+export interface VAModelChange {
+  range: monaco.IRange,
+  text: string,
+}
+
 export interface ISyntaxDecorations {
   decorations: monaco.editor.IModelDeltaDecoration[],
   problems: monaco.editor.IMarkerData[],
@@ -60,14 +105,27 @@ export enum MessageType {
   SetKeypairs,
   SetMessages,
   SetVariables,
+  SetTags,
+  SetSyntaxRules,
+  SetCompletionStats,
+  SetWorkspaceFiles,
   UpdateModel,
+  ChangeModel,
   DeleteModel,
+  CancelMessage,
   GetCodeActions,
   GetCodeFolding,
   GetCompletions,
+  GetDefinition,
+  GetDocumentSymbols,
+  GetFormattingEdits,
   GetHiperlinks,
   GetLineHover,
   GetLinkData,
+  GetReferences,
+  GetRenameLocation,
+  GetRenameEdits,
+  GetSignatureHelp,
   CheckSyntax,
 }
 
@@ -81,14 +139,27 @@ export function type2str(type: MessageType) {
     case MessageType.SetKeypairs: return "SetKeypairs";
     case MessageType.SetMessages: return "SetMessages";
     case MessageType.SetVariables: return "SetVariables";
+    case MessageType.SetTags: return "SetTags";
+    case MessageType.SetSyntaxRules: return "SetSyntaxRules";
+    case MessageType.SetCompletionStats: return "SetCompletionStats";
+    case MessageType.SetWorkspaceFiles: return "SetWorkspaceFiles";
     case MessageType.UpdateModel: return "UpdateModel";
+    case MessageType.ChangeModel: return "ChangeModel";
     case MessageType.DeleteModel: return "DeleteModel";
+    case MessageType.CancelMessage: return "CancelMessage";
     case MessageType.GetCodeActions: return "GetCodeActions";
     case MessageType.GetCodeFolding: return "GetCodeFolding";
     case MessageType.GetCompletions: return "GetCompletions";
+    case MessageType.GetDefinition: return "GetDefinition";
+    case MessageType.GetDocumentSymbols: return "GetDocumentSymbols";
+    case MessageType.GetFormattingEdits: return "GetFormattingEdits";
     case MessageType.GetHiperlinks: return "GetHiperlinks";
     case MessageType.GetLineHover: return "GetLineHover";
     case MessageType.GetLinkData: return "GetLinkData";
+    case MessageType.GetReferences: return "GetReferences";
+    case MessageType.GetRenameLocation: return "GetRenameLocation";
+    case MessageType.GetRenameEdits: return "GetRenameEdits";
+    case MessageType.GetSignatureHelp: return "GetSignatureHelp";
     case MessageType.CheckSyntax: return "CheckSyntax";
   }
 }
@@ -101,15 +172,28 @@ export type WorkerMessage =
   | { id?: number, type: MessageType.SetMessages, data: any }
   | { id?: number, type: MessageType.SetElements, values: string, clear: boolean }
   | { id?: number, type: MessageType.SetVariables, values: string, clear: boolean }
+  | { id?: number, type: MessageType.SetTags, data: string, clear: boolean }
+  | { id?: number, type: MessageType.SetSyntaxRules, data: string, clear: boolean }
+  | { id?: number, type: MessageType.SetCompletionStats, data: string }
   | { id?: number, type: MessageType.SetImports, data: any }
+  | { id?: number, type: MessageType.SetWorkspaceFiles, data: string, clear: boolean }
   | { id?: number, type: MessageType.UpdateModel, versionId: number, uri: string }
+  | { id?: number, type: MessageType.ChangeModel, versionId: number, uri: string, changes: VAModelChange[] }
   | { id?: number, type: MessageType.DeleteModel, uri: string }
+  | { id?: number, type: MessageType.CancelMessage, data: number }
   | { id?: number, type: MessageType.GetCodeActions, versionId: number, uri: string, errors: VACodeError[] }
   | { id?: number, type: MessageType.GetCodeFolding, versionId: number, uri: string }
-  | { id?: number, type: MessageType.GetCompletions, line: string, lineNumber: number, column: number }
+  | { id?: number, type: MessageType.GetCompletions, versionId: number, uri: string, line: string, lineNumber: number, column: number, locale?: string }
+  | { id?: number, type: MessageType.GetDefinition, versionId: number, uri: string, lineNumber: number, column: number }
+  | { id?: number, type: MessageType.GetDocumentSymbols, versionId: number, uri: string }
+  | { id?: number, type: MessageType.GetFormattingEdits, versionId: number, uri: string, range?: monaco.IRange, options: monaco.languages.FormattingOptions }
   | { id?: number, type: MessageType.GetHiperlinks, versionId: number, uri: string }
-  | { id?: number, type: MessageType.GetLineHover, versionId: number, uri: string, lineNumber: number, minColumn: number, maxColumn: number }
+  | { id?: number, type: MessageType.GetLineHover, versionId: number, uri: string, lineNumber: number, column: number, minColumn: number, maxColumn: number }
   | { id?: number, type: MessageType.GetLinkData, versionId: number, uri: string, key: string }
+  | { id?: number, type: MessageType.GetReferences, versionId: number, uri: string, lineNumber: number, column: number }
+  | { id?: number, type: MessageType.GetRenameLocation, versionId: number, uri: string, lineNumber: number, column: number }
+  | { id?: number, type: MessageType.GetRenameEdits, versionId: number, uri: string, lineNumber: number, column: number, newName: string }
+  | { id?: number, type: MessageType.GetSignatureHelp, versionId: number, uri: string, line: string, lineNumber: number, column: number }
   | { id?: number, type: MessageType.CheckSyntax, versionId: number, uri: string }
   ;
 
@@ -1,10 +1,247 @@
-import { getLineMaxColumn, getLineMinColumn, IWorkerContext } from './common';
+import * as distance from 'jaro-winkler';
+import { completionCommandId, escapeSnippet, getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel, VAToken } from './common';
+import { getLinks } from './hiperlinks';
+import { KeywordMatcher } from './matcher';
+import { WorkerModel } from './model';
 import { VAStepData, VAStepInfo } from './steplist';
+import { VAStepLine } from './stepline';
+import { getTagAt } from './tags';
 
-export function getCompletions(
+const statsHalfLife = 30 * 24 * 60 * 60 * 1000;
+const fuzzyThreshold = 0.8;
+const fuzzyLimit = 50;
+
+interface VAStepUsages {
+  versionId: number;
+  matcher: KeywordMatcher;
+  counts: { [snippet: string]: number };
+}
+
+const usageCache = new WeakMap<WorkerModel, VAStepUsages>();
+
+function getStepUsages(ctx: IWorkerContext, model: WorkerModel): { [snippet: string]: number } {
+  if (!model) return {};
+  const versionId = model.getVersionId();
+  const cached = usageCache.get(model);
+  if (cached && cached.versionId === versionId && cached.matcher === ctx.matcher) return cached.counts;
+  const counts = {};
+  const lineCount = model.getLineCount();
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    if (model.getLineToken(lineNumber).token != VAToken.Operator) continue;
+    const snippet = new VAStepLine(ctx.matcher, model.getLineContent(lineNumber)).snippet;
+    if (snippet) counts[snippet] = (counts[snippet] || 0) + 1;
+  }
+  usageCache.set(model, { versionId, matcher: ctx.matcher, counts });
+  return counts;
+}
+
+function getStepRanks(ctx: IWorkerContext, model: WorkerModel): { [snippet: string]: string } {
+  const scores = {};
+  const now = Date.now();
+  for (let snippet in ctx.stats) {
+    const e = ctx.stats[snippet];
+    const age = Math.max(0, now - (e.time || 0));
+    scores[snippet] = (e.count || 0) * Math.pow(0.5, age / statsHalfLife);
+  }
+  const counts = getStepUsages(ctx, model);
+  for (let snippet in counts) scores[snippet] = (scores[snippet] || 0) + counts[snippet];
+  const ranks = {};
+  Object.keys(scores)
+    .filter(snippet => scores[snippet] > 0 && ctx.steplist[snippet])
+    .sort((a, b) => scores[b] - scores[a])
+    .forEach((snippet, i) => ranks[snippet] = "0" + ("00000" + i).slice(-5));
+  return ranks;
+}
+
+function getSortText(
+  ranks: { [snippet: string]: string },
+  snippet: string,
+  e: VAStepData,
+  order: number = undefined,
+): string {
+  if (ranks[snippet]) return ranks[snippet];
+  if (order !== undefined) return "1" + ("00000" + order).slice(-5);
+  return "2" + (e.sortText || "");
+}
+
+function getWordScore(word: string, w: string): number {
+  // a short partial word is a prefix rather than a misspelling
+  if (w.indexOf(word) === 0) return 0.9 + 0.1 * word.length / w.length;
+  return distance(word, w);
+}
+
+function getWordsScore(words: string[], snippet: string): number {
+  const list = snippet.split(" ");
+  let sum = 0;
+  for (let i = 0; i < words.length; i++) {
+    const best = Math.max(...list.map(w => getWordScore(words[i], w)));
+    if (best < fuzzyThreshold) return 0;
+    sum += best;
+  }
+  return sum / words.length;
+}
+
+function getStepOrder(
+  ctx: IWorkerContext,
+  ranks: { [snippet: string]: string },
+  list: string[],
+  words: string[],
+): { steps: string[], order: { [snippet: string]: number } } {
+  const order = {};
+  if (words.length == 0) return { steps: list, order };
+  const prefix = words.join(" ");
+  const sortText = (snippet: string) => getSortText(ranks, snippet, ctx.steplist[snippet]);
+  const compare = (a: string, b: string) => sortText(a) < sortText(b) ? -1 : (sortText(a) > sortText(b) ? 1 : 0);
+  const scores = {};
+  list.forEach(snippet => scores[snippet] = snippet.indexOf(prefix) === 0 ? 2 : getWordsScore(words, snippet));
+  const steps = list
+    .filter(snippet => scores[snippet] > 0)
+    .sort((a, b) => scores[b] - scores[a] || compare(a, b))
+    .slice(0, fuzzyLimit);
+  steps.forEach((snippet, i) => order[snippet] = i);
+  // fill the rest of the top with regular steps, the editor filters them by itself
+  if (steps.length < fuzzyLimit) list
+    .filter(snippet => order[snippet] === undefined)
+    .sort(compare)
+    .slice(0, fuzzyLimit - steps.length)
+    .forEach(snippet => steps.push(snippet));
+  return { steps, order };
+}
+
+function getTagCompletions(
   ctx: IWorkerContext,
   msg: { line: string, lineNumber: number, column: number }
 ): monaco.languages.CompletionItem[] {
+  const tag = getTagAt(msg.line, msg.column);
+  if (tag === undefined) return [];
+  const range = {
+    startLineNumber: msg.lineNumber,
+    endLineNumber: msg.lineNumber,
+    startColumn: tag.startColumn,
+    endColumn: tag.endColumn,
+  };
+  return Object.keys(ctx.tags).map(key => ({
+    label: "@" + ctx.tags[key].name,
+    kind: 17, // monaco.languages.CompletionItemKind.Keyword = 17
+    documentation: ctx.tags[key].description,
+    insertText: "@" + ctx.tags[key].name,
+    range,
+  }));
+}
+
+function getElementCompletions(
+  ctx: IWorkerContext,
+  line: string,
+  range: monaco.IRange,
+  variable: string,
+  result: monaco.languages.CompletionItem[],
+) {
+  const step = new VAStepLine(ctx.matcher, line);
+  const data = step.invalid ? undefined : ctx.steplist[step.snippet] as VAStepData;
+  const param = data && step.getParam(data, range.startColumn);
+  const kind = param && param.element && param.element.toLowerCase();
+  const Q = variable.charAt(0);
+  for (let key in ctx.elements) {
+    const e = ctx.elements[key];
+    if (kind && e.kind && e.kind.toLowerCase() != kind) continue;
+    result.push({
+      label: e.name,
+      detail: e.value,
+      filterText: variable + e.name,
+      insertText: `${Q}${e.name}${Q}`,
+      kind: 3, // monaco.languages.CompletionItemKind.Field = 3
+      range,
+    });
+  }
+}
+
+function getLinkCompletions(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  column: number,
+  range: monaco.IRange,
+  variable: string,
+  result: monaco.languages.CompletionItem[],
+): boolean {
+  if (!model) return false;
+  const text = variable.substring(1, column - range.startColumn);
+  const match = text.match(/^(\p{L}[\p{L}\p{N}]*(?:\.\p{L}[\p{L}\p{N}]*)?)\.[\p{L}\p{N}]*$/u);
+  if (match === null) return false;
+  const words = match[1].toLowerCase().split(".");
+  const links = getLinks(ctx.matcher, model, { lineNumber: 1, lineCount: model.getLineCount() });
+  const startColumn = range.startColumn + match[1].length + 2;
+  const linkRange = { ...range, startColumn, endColumn: range.endColumn - 1 };
+  const push = (label: string, detail: any, kind: monaco.languages.CompletionItemKind) => result.push({
+    label, detail: String(detail), kind, insertText: label, range: linkRange
+  });
+  const table = words.length == 1 ? links[words[0]] : undefined;
+  if (table) for (let key in table) push(table[key].key, table[key].name, 4); // monaco.languages.CompletionItemKind.Variable = 4
+  const row = words.length == 1 ? links[""] && links[""][words[0]] : links[words[0]] && links[words[0]][words[1]];
+  if (row && row.data) for (let key in row.data) push(key, row.data[key], 9); // monaco.languages.CompletionItemKind.Property = 9
+  return true;
+}
+
+function getSectionKeys(ctx: IWorkerContext, model: IWorkerModel, lineNumber: number): string[] {
+  const keys: string[] = [];
+  for (let i = 1; i < lineNumber; i++) {
+    if (model.getLineToken(i).token == VAToken.Section)
+      keys.push(ctx.matcher.getSection(model.getLineContent(i)));
+  }
+  if (keys.length == 0) return ["feature"];
+  const used = (...list: string[]) => keys.some(key => list.indexOf(key) >= 0);
+  const outline = keys.filter(key => key != "examples").pop() == "scenarioOutline";
+  return ["background", "variables", "scenario", "scenarioOutline", "examples"].filter(key => {
+    switch (key) {
+      case "background": return !used("background", "scenario", "scenarioOutline");
+      case "variables": return !used("variables", "scenario", "scenarioOutline");
+      case "examples": return outline;
+      default: return true;
+    }
+  });
+}
+
+function getSectionTemplate(key: string, word: string): string {
+  switch (key) {
+    case "feature":
+    case "scenario":
+    case "scenarioOutline":
+      return `${escapeSnippet(word)}: $1\n\t$0`;
+    case "examples":
+      return `${escapeSnippet(word)}:\n\t| $1 |\n\t| $0 |`;
+    default:
+      return `${escapeSnippet(word)}:\n\t$0`;
+  }
+}
+
+function getSectionCompletions(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { line: string, lineNumber: number, locale?: string },
+  range: monaco.IRange,
+  result: monaco.languages.CompletionItem[],
+) {
+  if (!model || /^\s/.test(msg.line)) return;
+  const language = ctx.matcher.language || msg.locale;
+  getSectionKeys(ctx, model, msg.lineNumber).forEach(key => {
+    ctx.matcher.getSectionWords(key, language).forEach(word => {
+      result.push({
+        label: word,
+        kind: 27, // monaco.languages.CompletionItemKind.Snippet = 27
+        insertText: getSectionTemplate(key, word),
+        insertTextRules: 4, // monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet = 4
+        range,
+      });
+    });
+  });
+}
+
+export function getCompletions(
+  ctx: IWorkerContext,
+  model: WorkerModel,
+  msg: { line: string, lineNumber: number, column: number, locale?: string }
+): monaco.languages.CompletionList {
+  if (model && model.getLineToken(msg.lineNumber).token == VAToken.Instruction)
+    return { suggestions: getTagCompletions(ctx, msg) };
   const regexp = /"[^"]*"|'[^']*'|<[^\s"']*>/gi;
   let match, wordRange;
   let variable: string;
@@ -23,6 +260,7 @@ export function getCompletions(
   }
   let result = [];
   if (variable) {
+    if (getLinkCompletions(ctx, model, msg.column, wordRange, variable, result)) return { suggestions: result };
     let Q1 = variable.charAt(0);
     let Q2 = variable.charAt(variable.length - 1);
     let S = /^.\$.+\$.$/.test(variable) ? "$" : "";
@@ -36,11 +274,12 @@ export function getCompletions(
         range: wordRange
       })
     }
-    return result;
+    if (Q1 != "<" && S == "") getElementCompletions(ctx, msg.line, wordRange, variable, result);
+    return { suggestions: result };
   }
 
   let maxColumn = getLineMaxColumn(msg.line);
-  if (maxColumn && msg.column < maxColumn) return [];
+  if (maxColumn && msg.column < maxColumn) return { suggestions: [] };
 
   let minColumn = getLineMinColumn(msg.line);
   let lineRange = {
@@ -50,26 +289,18 @@ export function getCompletions(
     endColumn: maxColumn ? maxColumn : msg.column,
   };
 
+  const ranks = getStepRanks(ctx, model);
+  const typed = msg.line.substring(lineRange.startColumn - 1, msg.column - 1);
+  let keytext: string = undefined;
+  let words: string[];
   if (match = msg.line.match(ctx.matcher.step)) {
-    let keytext = msg.line.substring(minColumn - 1, match[0].length);
+    keytext = msg.line.substring(minColumn - 1, match[0].length);
     keytext = keytext.charAt(0).toUpperCase() + keytext.slice(1);
     if (keytext.match(/\S$/)) keytext += " ";
-    for (let snippet in ctx.steplist) {
-      let e = ctx.steplist[snippet] as VAStepData;
-      if (e.documentation) {
-        result.push({
-          label: e.label,
-          kind: e.kind ? e.kind : 1,
-          detail: e.section,
-          documentation: e.documentation,
-          sortText: e.sortText,
-          insertText: keytext + e.insertText + '\n',
-          filterText: keytext + snippet,
-          range: lineRange
-        });
-      }
-    }
+    words = ctx.matcher.getSnippet(msg.line.substring(match[0].length)).split(" ").filter(w => w);
   } else {
+    words = ctx.matcher.getSnippet(msg.line).split(" ").filter(w => w);
+    getSectionCompletions(ctx, model, msg, lineRange, result);
     ctx.metatags.forEach(word => {
       result.push({
         label: word,
@@ -78,21 +309,25 @@ export function getCompletions(
         range: lineRange
       });
     });
-    for (let snippet in ctx.steplist) {
-      let e = ctx.steplist[snippet] as VAStepData;
-      if (e.documentation) {
-        result.push({
-          label: e.label,
-          kind: e.kind ? e.kind : 1,
-          detail: e.section,
-          documentation: e.documentation,
-          sortText: e.sortText,
-          insertText: e.head.keyword + e.insertText + '\n',
-          filterText: snippet,
-          range: lineRange
-        });
-      }
-    }
   }
-  return result;
+  const list = Object.keys(ctx.steplist).filter(snippet => (ctx.steplist[snippet] as VAStepData).documentation);
+  const { steps, order } = getStepOrder(ctx, ranks, list, words);
+  steps.forEach(snippet => {
+    let e = ctx.steplist[snippet] as VAStepData;
+    let filterText = keytext === undefined ? snippet : keytext + snippet;
+    const fuzzy = order[snippet] !== undefined;
+    result.push({
+      label: e.label,
+      kind: e.kind ? e.kind : 1,
+      detail: e.section,
+      documentation: e.documentation,
+      sortText: getSortText(ranks, snippet, e, order[snippet]),
+      command: { id: completionCommandId, title: "", arguments: [snippet] },
+      insertText: escapeSnippet(keytext === undefined ? e.head.keyword : keytext) + e.insertSnippet + '\n',
+      insertTextRules: 4, // monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet = 4
+      filterText: fuzzy ? typed : filterText,
+      range: lineRange
+    });
+  });
+  return words.length ? { suggestions: result, incomplete: true } : { suggestions: result };
 }
@@ -1,3 +1,4 @@
+import { KeywordMatcher } from "./matcher";
 import { VanessaGherkinProvider } from "./provider";
 
 export const language: monaco.languages.ILanguageExtensionPoint = {
@@ -32,14 +33,14 @@ export class GherkinLanguage {
 
   word = /\p{L}[\p{L}\p{N}]*/;
 
-  constructor(provider: VanessaGherkinProvider) {
-    const metatags = provider.matcher.regex(provider.metatags);
+  constructor(provider: VanessaGherkinProvider, matcher: KeywordMatcher = provider.matcher) {
+    const metatags = matcher.regex(provider.metatags);
     this.tokenizer.section.push([new RegExp(metatags), { token: "metatag.php", next: "@operator" }])
-    this.tokenizer.section.push([provider.matcher.section.feature, { token: "metatag.php", next: "@heading" }])
-    this.tokenizer.section.push([provider.matcher.primary, { token: "metatag.php", next: "@operator" }])
-    this.tokenizer.keyword.push([provider.matcher.import, { token: "keyword", next: "@operator" }]);
-    this.tokenizer.keyword.push([provider.matcher.step, { token: "keyword", next: "@operator" }]);
-    this.tokenizer.feature[0] = [provider.matcher.primary, { token: "metatag.php", next: "@root" }];
+    this.tokenizer.section.push([matcher.section.feature, { token: "metatag.php", next: "@heading" }])
+    this.tokenizer.section.push([matcher.primary, { token: "metatag.php", next: "@operator" }])
+    this.tokenizer.keyword.push([matcher.import, { token: "keyword", next: "@operator" }]);
+    this.tokenizer.keyword.push([matcher.step, { token: "keyword", next: "@operator" }]);
+    this.tokenizer.feature[0] = [matcher.primary, { token: "metatag.php", next: "@root" }];
   }
 
   tokenizer = {
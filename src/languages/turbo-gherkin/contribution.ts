@@ -1,5 +1,6 @@
 import { VanessaGherkinProvider } from "./provider";
 import { conf, language } from './configuration'
+import { completionCommandId } from './common';
 
 monaco.languages.register(language);
 
@@ -9,8 +10,16 @@ monaco.languages.onLanguage(language.id, () => {
   monaco.languages.setLanguageConfiguration(language.id, conf);
   monaco.languages.registerCodeActionProvider(language.id, provider);
   monaco.languages.registerCompletionItemProvider(language.id, provider);
+  monaco.languages.registerDefinitionProvider(language.id, provider);
+  monaco.languages.registerDocumentFormattingEditProvider(language.id, provider);
+  monaco.languages.registerDocumentRangeFormattingEditProvider(language.id, provider);
+  monaco.languages.registerDocumentSymbolProvider(language.id, provider);
   monaco.languages.registerFoldingRangeProvider(language.id, provider);
   monaco.languages.registerHoverProvider(language.id, provider);
   monaco.languages.registerLinkProvider(language.id, provider);
+  monaco.languages.registerReferenceProvider(language.id, provider);
+  monaco.languages.registerRenameProvider(language.id, provider);
+  monaco.languages.registerSignatureHelpProvider(language.id, provider);
   monaco.languages.setTokensProvider(language.id, provider);
+  monaco.editor.registerCommand(completionCommandId, (accessor, snippet: string) => provider.addCompletionStats(snippet));
 });
@@ -0,0 +1,83 @@
+import { getTableCells, IWorkerContext, IWorkerModel, VATableCell, VAToken } from './common';
+
+function getIndentText(line: string): string {
+  return line.match(/^\s*/)[0];
+}
+
+function getTableIndent(
+  model: IWorkerModel,
+  lineNumber: number,
+  options: monaco.languages.FormattingOptions,
+): string {
+  const unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+  for (let i = lineNumber - 1; i > 0; i--) {
+    switch (model.getLineToken(i).token) {
+      case VAToken.Empty:
+      case VAToken.Comment:
+        continue;
+      case VAToken.Section:
+      case VAToken.Operator:
+      case VAToken.Asterisk:
+        return getIndentText(model.getLineContent(i)) + unit;
+      default:
+        return getIndentText(model.getLineContent(lineNumber));
+    }
+  }
+  return getIndentText(model.getLineContent(lineNumber));
+}
+
+function formatTable(
+  model: IWorkerModel,
+  startLineNumber: number,
+  endLineNumber: number,
+  options: monaco.languages.FormattingOptions,
+  edits: monaco.languages.TextEdit[],
+) {
+  const rows: Array<{ lineNumber: number, cells: VATableCell[] }> = [];
+  const widths: number[] = [];
+  for (let lineNumber = startLineNumber; lineNumber <= endLineNumber; lineNumber++) {
+    const line = model.getLineContent(lineNumber);
+    if (!/\|\s*$/.test(line)) continue;
+    const cells = getTableCells(line);
+    cells.forEach((cell, i) => widths[i] = Math.max(widths[i] || 0, cell.text.length));
+    rows.push({ lineNumber, cells });
+  }
+  const indent = getTableIndent(model, startLineNumber, options);
+  rows.forEach(row => {
+    const line = model.getLineContent(row.lineNumber);
+    const text = indent + "| " + row.cells.map((cell, i) =>
+      cell.text + " ".repeat(widths[i] - cell.text.length)
+    ).join(" | ") + " |";
+    if (text != line) edits.push({
+      range: {
+        startLineNumber: row.lineNumber,
+        startColumn: 1,
+        endLineNumber: row.lineNumber,
+        endColumn: line.length + 1,
+      },
+      text,
+    });
+  });
+}
+
+export function getFormattingEdits(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { range?: monaco.IRange, options: monaco.languages.FormattingOptions },
+): monaco.languages.TextEdit[] {
+  const edits: monaco.languages.TextEdit[] = [];
+  const lineCount = model.getLineCount();
+  const minLineNumber = msg.range ? msg.range.startLineNumber : 1;
+  const maxLineNumber = msg.range ? msg.range.endLineNumber : lineCount;
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    if (model.getLineToken(lineNumber).token != VAToken.Parameter) continue;
+    let endLineNumber = lineNumber;
+    while (endLineNumber < lineCount
+      && model.getLineToken(endLineNumber + 1).token == VAToken.Parameter
+    ) endLineNumber++;
+    if (endLineNumber >= minLineNumber && lineNumber <= maxLineNumber)
+      formatTable(model, lineNumber, endLineNumber, msg.options, edits);
+    lineNumber = endLineNumber;
+  }
+  return edits;
+}
@@ -1,15 +1,24 @@
-import { IWorkerContext, IWorkerModel } from "./common";
+import { getLineMaxColumn, getLineMinColumn, getTableCells, IWorkerContext, IWorkerModel } from "./common";
 import { KeywordMatcher } from "./matcher";
 
 let imports = {};
 
 interface IImportedItem {
   name: string;
+  line?: number;
   value?: any;
   table?: any;
   lines?: any;
 }
 
+export interface VADefinition {
+  key: string;
+  file?: string;
+  line?: number;
+  range?: monaco.IRange;
+  scenario?: boolean;
+}
+
 interface IImportedFile {
   name: string;
   path: string;
@@ -24,17 +33,17 @@ export function setImports(values: string) {
     file.items.forEach(item => {
       const key = (item.name || "").toLowerCase();
       if (item.value) {
-        data[""][key] = { key: item.name, name: item.value.text, file: file.path };
+        data[""][key] = { key: item.name, name: item.value.text, file: file.path, line: item.line };
       } else if (item.lines) {
         const text = item.lines.lines.map(w => w.text).join('\n');
-        data[""][key] = { key: item.name, name: text, file: file.path };
+        data[""][key] = { key: item.name, name: text, file: file.path, line: item.line };
       } else if (item.table) {
         if (key) data[key] = {};
         const columns = item.table.head.tokens.map(e => e.text);
         item.table.body.forEach(row => {
           const t = row.tokens;
           const i = (t[0].text || "").toLowerCase();
-          let x = data[key][i] = { key: t[0].text, name: t[1].text, file: file.path, data: {} };
+          let x = data[key][i] = { key: t[0].text, name: t[1].text, file: file.path, line: row.line, data: {} };
           for (let col = 0; col < columns.length; col++)
             x.data[columns[col]] = t[col].text;
         });
@@ -48,20 +57,33 @@ function trimQuotes(w: string) {
   return w.replace(/^["'](.*)["']$/, '$1');
 }
 
-function getLinks(
+export interface VALinkDuplicate {
+  table: string;
+  key: string;
+  lineNumber: number;
+}
+
+export function getLinks(
   matcher: KeywordMatcher,
   model: IWorkerModel,
-  position: { lineNumber: number, lineCount: number }
+  position: { lineNumber: number, lineCount: number },
+  duplicates: VALinkDuplicate[] = undefined,
 ) {
   let links_reg = new RegExp(matcher.section.variables);
   let import_reg = new RegExp(matcher.import.source + "(.+)");
+  let links: any = undefined;
+  let duplicate = (table: string, key: string, lineNumber: number, imported: boolean) => {
+    let prev = links[table] && links[table][key];
+    if (prev === undefined || duplicates === undefined) return;
+    duplicates.push({ table, key, lineNumber: imported && !prev.file ? prev.line : lineNumber });
+  }
   for (let lineNumber = 1; lineNumber <= position.lineCount - 1; lineNumber++) {
     let line: string = model.getLineContent(lineNumber);
     if (line.match(links_reg)) {
       let matches = undefined;
       let tableName = "";
       let columns = null;
-      let links = { "": {} };
+      links = { "": {} };
       let multiline = false;
       let multitext = "";
       let multidata = {};
@@ -77,9 +99,10 @@ function getLinks(
           } else {
             match = match.map(trimQuotes);
             while (match.length < columns.length) match.push("");
-            let row = { key: match[0], name: match[1], data: {} };
+            let row = { key: match[0], name: match[1], line: i, data: {} };
             for (let col = 0; col < columns.length; col++) row.data[columns[col]] = match[col];
             if (links[tableName] == undefined) links[tableName] = {};
+            duplicate(tableName, match[0].toLowerCase(), i, false);
             links[tableName][match[0].toLowerCase()] = row;
           }
         } else if ((matches = line.match(/^\s*(\p{L}[\p{L}\p{N}]*)\s*=\s*(.*)\s*$/u)) != null) {
@@ -89,7 +112,8 @@ function getLinks(
           let key = matches[1].toLowerCase();
           let value = matches[2].trim();
           if (links[tableName] == undefined) links[tableName] = {};
-          multidata = links[tableName][key] = { key: key, name: value };
+          duplicate(tableName, key, i, false);
+          multidata = links[tableName][key] = { key: key, name: value, line: i };
         } else if ((matches = line.match(import_reg)) !== null) {
           tableName = "";
           columns = null;
@@ -97,8 +121,14 @@ function getLinks(
           let filename = trimQuotes(matches[3].trim()).toLowerCase();
           let vars = imports[filename];
           if (vars) {
-            Object.keys(vars[""]).forEach(key => { links[""][key] = vars[""][key] });
-            Object.keys(vars).forEach(key => { if (key) links[key] = vars[key] });
+            Object.keys(vars[""]).forEach(key => {
+              duplicate("", key, i, true);
+              links[""][key] = vars[""][key];
+            });
+            Object.keys(vars).forEach(key => {
+              if (key) Object.keys(vars[key]).forEach(row => duplicate(key, row, i, true));
+              if (key) links[key] = vars[key];
+            });
           }
         } else if (line.match(/^\s*(#|@|\/\/)/)) {
           continue;
@@ -144,6 +174,65 @@ export function getLinkData(
   }
 }
 
+export function findLink(links: any, key: string): { row: any, column?: string } {
+  let words = key.split(".").map((w: string) => w.toLowerCase());
+  let find = (table: string, row: string, col: string = undefined): any => {
+    if (links[table] && links[table][row]) return { row: links[table][row], column: col };
+    else if (col == undefined) return find("", table, row);
+  }
+  switch (words.length) {
+    case 1: return find("", words[0]);
+    case 2: return find(words[0], words[1]);
+    case 3: return find(words[0], words[1], words[2]);
+  }
+}
+
+export interface VAQuotedParam {
+  text: string;
+  startColumn: number;
+  endColumn: number;
+}
+
+export function getQuotedParams(line: string): VAQuotedParam[] {
+  let result = [];
+  let matches = undefined;
+  let regexp = /(["'])((?:\\\1|(?:(?!\1)).)*)(\1)/g;
+  while ((matches = regexp.exec(line)) !== null) {
+    result.push({ text: matches[2], startColumn: matches.index + 2, endColumn: regexp.lastIndex });
+  }
+  return result;
+}
+
+export function getDefinition(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { lineNumber: number, column: number }
+): VADefinition {
+  const param = getQuotedParams(model.getLineContent(msg.lineNumber)).filter(
+    p => p.startColumn - 1 <= msg.column && msg.column <= p.endColumn + 1
+  )[0];
+  if (param === undefined) return null;
+  const key = param.text.replace(/^\$(.+)\$$/, "$1");
+  if (!/^(\p{L}[\p{L}\p{N}]*)(\.\p{L}[\p{L}\p{N}]*)*$/u.test(key)) return null;
+  let position = { lineNumber: 1, lineCount: model.getLineCount() };
+  let link = findLink(getLinks(ctx.matcher, model, position), key);
+  if (!link) return null;
+  if (link.row.file) return { key, file: link.row.file, line: link.row.line };
+  const lineNumber: number = link.row.line;
+  const line = model.getLineContent(lineNumber);
+  let range = {
+    startLineNumber: lineNumber,
+    startColumn: getLineMinColumn(line),
+    endLineNumber: lineNumber,
+    endColumn: getLineMaxColumn(line),
+  };
+  let index = 0;
+  if (link.column) index = Object.keys(link.row.data).map(w => w.toLowerCase()).indexOf(link.column);
+  const cell = getTableCells(line)[index];
+  if (cell) range = { ...range, startColumn: cell.startColumn, endColumn: cell.endColumn };
+  return { key, range };
+}
+
 export function getHiperlinks(
   ctx: IWorkerContext,
   model: IWorkerModel,
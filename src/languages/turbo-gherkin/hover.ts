@@ -1,16 +1,94 @@
-import { getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel } from "./common";
+import { getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel, VAToken } from "./common";
+import { findLink, getLinks, getQuotedParams } from "./hiperlinks";
+import { getTag, getTagAt } from "./tags";
+import { VAScenario } from "./workspace";
 
 function escapeMarkdown(text: string): string {
   // escape markdown syntax tokens: http://daringfireball.net/projects/markdown/syntax#backslash
   return text.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&');
 }
 
+function scenarioHover(scenario: VAScenario, contents: monaco.IMarkdownString[]) {
+  const indent = Math.min(...scenario.steps.map(line => line.search(/\S/)));
+  const steps = scenario.steps.map(line => line.substring(indent)).join("\n");
+  contents.push({ value: `**${escapeMarkdown(scenario.name)}**` });
+  contents.push({ value: `${escapeMarkdown(scenario.path)}:${scenario.lineNumber}` });
+  if (steps) contents.push({ value: "```\n" + steps + "\n```" });
+}
+
+function getTagHover(
+  ctx: IWorkerContext,
+  line: string,
+  msg: { lineNumber: number, column: number },
+): monaco.languages.Hover {
+  const range = getTagAt(line, msg.column);
+  const tag = range && getTag(ctx, range.name);
+  if (tag === undefined) return null;
+  const contents = [{ value: `**@${escapeMarkdown(tag.name)}**` }];
+  if (tag.description) contents.push({ value: escapeMarkdown(tag.description) });
+  return {
+    range: {
+      startLineNumber: msg.lineNumber,
+      endLineNumber: msg.lineNumber,
+      startColumn: range.startColumn,
+      endColumn: range.endColumn,
+    },
+    contents,
+  };
+}
+
+function getLinkHover(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  line: string,
+  msg: { lineNumber: number, column: number },
+): monaco.languages.Hover {
+  const param = getQuotedParams(line).filter(p => p.startColumn <= msg.column && msg.column <= p.endColumn)[0];
+  if (param === undefined) return null;
+  const key = param.text.replace(/^\$(.+)\$$/, "$1");
+  if (!/^(\p{L}[\p{L}\p{N}]*)(\.\p{L}[\p{L}\p{N}]*)*$/u.test(key)) return null;
+  const link = findLink(getLinks(ctx.matcher, model, { lineNumber: 1, lineCount: model.getLineCount() }), key);
+  if (!link) return null;
+  const row = link.row;
+  const cells = row.data ? Object.keys(row.data) : [];
+  const column = link.column && cells.filter(col => col.toLowerCase() == link.column)[0];
+  const value = String(column ? row.data[column] : row.name);
+  const contents = [];
+  if (value.indexOf("\n") < 0) {
+    contents.push({ value: `**${escapeMarkdown(key)}** = ${escapeMarkdown(value)}` });
+  } else {
+    contents.push({ value: `**${escapeMarkdown(key)}**` });
+    contents.push({ value: "```\n" + value + "\n```" });
+  }
+  if (cells.length) {
+    const cell = (text: any) => escapeMarkdown(String(text)).replace(/\|/g, "\\|");
+    contents.push({
+      value: `| ${cells.map(cell).join(" | ")} |\n`
+        + `|${cells.map(() => " --- ").join("|")}|\n`
+        + `| ${cells.map(col => cell(row.data[col])).join(" | ")} |`
+    });
+  }
+  if (row.file) contents.push({ value: `${escapeMarkdown(row.file)}:${row.line}` });
+  return {
+    range: {
+      startLineNumber: msg.lineNumber,
+      endLineNumber: msg.lineNumber,
+      startColumn: param.startColumn,
+      endColumn: param.endColumn,
+    },
+    contents,
+  };
+}
+
 export function getLineHover(
   ctx: IWorkerContext,
   model: IWorkerModel,
   msg: any,
 ): monaco.languages.Hover {
   const line = model.getLineContent(msg.lineNumber);
+  if (model.getLineToken(msg.lineNumber).token == VAToken.Instruction)
+    return getTagHover(ctx, line, msg);
+  const link = msg.column ? getLinkHover(ctx, model, line, msg) : null;
   const contents = [];
   let match = line.match(/^\s*\*/);
   if (match) {
@@ -24,7 +102,10 @@ export function getLineHover(
     const steptext = line.substring(match[0].length);
     const snippet = ctx.matcher.getSnippet(steptext);
     let step = ctx.steplist[snippet];
-    if (step) {
+    let scenario = ctx.scenarios[snippet];
+    if (step === undefined && scenario) {
+      scenarioHover(scenario, contents);
+    } else if (step) {
       let i = String.fromCharCode(60020);
       let s = String.fromCharCode(60277);
       let t = escapeMarkdown(step.section);
@@ -46,6 +127,8 @@ export function getLineHover(
       });
     }
   }
+  if (link && contents.length == 0) return link;
+  if (link) link.contents.forEach(e => contents.push(e));
   let range = {
     startLineNumber: msg.lineNumber,
     endLineNumber: msg.lineNumber,
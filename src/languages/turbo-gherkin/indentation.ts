@@ -0,0 +1,148 @@
+import { getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel, VAToken } from './common';
+import { VAStepLine } from './stepline';
+
+function isBlockOpening(ctx: IWorkerContext, line: string): boolean {
+  const matcher = ctx.matcher;
+  if (matcher.keypairs.some(regexp => regexp.test(line))) return true;
+  if (matcher.metatags.test(line)) return true;
+  const step = new VAStepLine(matcher, line);
+  if (!step.invalid && ctx.steplist[step.snippet]?.kind === 8) return true; // do..while
+  return ["else", "elseif", "try", "except"].some(key => matcher.stepkey[key] && matcher.stepkey[key].test(line));
+}
+
+function getBlockKey(ctx: IWorkerContext, line: string): string {
+  // metatags go in pairs: try, except
+  for (let i = 0; i < ctx.metatags.length; i++)
+    if (ctx.matcher.regex([ctx.metatags[i]]).test(line)) return i % 2 ? "except" : "try";
+  const stepkey = ctx.matcher.stepkey;
+  return ["elseif", "else", "if", "try", "except"].filter(key => stepkey[key] && stepkey[key].test(line))[0];
+}
+
+function lineProblem(
+  model: IWorkerModel,
+  lineNumber: number,
+  message: string,
+  code: string,
+  severity: monaco.MarkerSeverity = 4, // monaco.MarkerSeverity.Warning = 4
+): monaco.editor.IMarkerData {
+  const line = model.getLineContent(lineNumber);
+  return {
+    severity,
+    message,
+    code,
+    startLineNumber: lineNumber,
+    endLineNumber: lineNumber,
+    startColumn: getLineMinColumn(line),
+    endColumn: getLineMaxColumn(line),
+  };
+}
+
+function getIndentStyle(line: string): string {
+  const indent = line.match(/^\s*/)[0];
+  const tabs = indent.indexOf("\t") >= 0;
+  const spaces = indent.indexOf(" ") >= 0;
+  return tabs && spaces ? "mixed" : tabs ? "tabs" : spaces ? "spaces" : undefined;
+}
+
+export function checkIndentation(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  const lineCount = model.getLineCount();
+  let levels: number[] = [];
+  let opening: number = undefined;
+  let section = "";
+  let style: string = undefined;
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const token = model.getLineToken(lineNumber);
+    switch (token.token) {
+      case VAToken.Section:
+        section = ctx.matcher.getSection(model.getLineContent(lineNumber));
+        levels = [];
+        opening = undefined;
+        continue;
+      case VAToken.Operator:
+      case VAToken.Asterisk:
+        break;
+      default:
+        continue;
+    }
+    if (section == "" || section == "feature" || section == "variables") continue;
+    const line = model.getLineContent(lineNumber);
+    const lineStyle = getIndentStyle(line);
+    if (style === undefined && lineStyle != "mixed") style = lineStyle;
+    if (lineStyle && lineStyle != style) problems.push({
+      severity: 4, // monaco.MarkerSeverity.Warning = 4
+      message: ctx.messages.indentMixMsg,
+      code: "indent-mixed",
+      startLineNumber: lineNumber,
+      endLineNumber: lineNumber,
+      startColumn: 1,
+      endColumn: getLineMinColumn(line),
+    });
+    const dedent = levels.length && levels[levels.length - 1] > token.indent;
+    while (levels.length && levels[levels.length - 1] > token.indent) levels.pop();
+    if (opening !== undefined && token.indent <= opening)
+      problems.push(lineProblem(model, lineNumber, ctx.messages.indentBlockMsg, "indent-block"));
+    else if (dedent && (levels.length == 0 || levels[levels.length - 1] < token.indent))
+      problems.push(lineProblem(model, lineNumber, ctx.messages.indentLevelMsg, "indent-level"));
+    if (levels.length == 0 || levels[levels.length - 1] < token.indent) levels.push(token.indent);
+    opening = isBlockOpening(ctx, line) ? token.indent : undefined;
+  }
+}
+
+interface VABlockLine {
+  lineNumber: number;
+  indent: number;
+  key: string;
+}
+
+export function checkBlocks(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  const lineCount = model.getLineCount();
+  let blocks: VABlockLine[] = [];
+  let section = "";
+  const error = (lineNumber: number, message: string, code: string) =>
+    problems.push(lineProblem(model, lineNumber, message, code, 8)); // monaco.MarkerSeverity.Error = 8
+  const closeBlock = (block: VABlockLine) => {
+    if (block.key == "try") error(block.lineNumber, ctx.messages.blockTryMsg, "block-try");
+  }
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const token = model.getLineToken(lineNumber);
+    switch (token.token) {
+      case VAToken.Section:
+        blocks.forEach(closeBlock);
+        blocks = [];
+        section = ctx.matcher.getSection(model.getLineContent(lineNumber));
+        continue;
+      case VAToken.Operator:
+      case VAToken.Asterisk:
+        break;
+      default:
+        continue;
+    }
+    if (section == "" || section == "feature" || section == "variables") continue;
+    const line = model.getLineContent(lineNumber);
+    const block = { lineNumber, indent: token.indent, key: getBlockKey(ctx, line) };
+    while (blocks.length && blocks[blocks.length - 1].indent > block.indent) closeBlock(blocks.pop());
+    const prev = blocks.length && blocks[blocks.length - 1].indent == block.indent ? blocks.pop() : undefined;
+    switch (block.key) {
+      case "else":
+      case "elseif":
+        if (prev === undefined || (prev.key != "if" && prev.key != "elseif"))
+          error(lineNumber, ctx.messages.blockElseMsg, "block-else");
+        break;
+      case "except":
+        if (prev === undefined || prev.key != "try")
+          error(lineNumber, ctx.messages.blockExceptMsg, "block-except");
+        break;
+    }
+    if (prev && block.key != "except") closeBlock(prev);
+    blocks.push(block);
+  }
+  blocks.forEach(closeBlock);
+}
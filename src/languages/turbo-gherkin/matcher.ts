@@ -9,8 +9,10 @@ class Section {
 
 export class KeywordMatcher {
 
+  public language: string;
   public stepkey: any = {};
   public section = new Section;
+  public sections: { [lang: string]: { [key: string]: string[] } } = {};
   public keypairs: RegExp[];
   public metatags: RegExp;
   public primary: RegExp;
@@ -40,7 +42,7 @@ export class KeywordMatcher {
     return result.join(" ");
   }
 
-  constructor(text: string) {
+  constructor(text: string, language: string = undefined) {
 
     let keywords = {
       stepkey: {},
@@ -58,7 +60,8 @@ export class KeywordMatcher {
     }
 
     const src = JSON.parse(text);
-    Object.keys(src).forEach(lang => {
+    if (language) this.language = Object.keys(src).filter(lang => lang.toLowerCase() == language.toLowerCase())[0];
+    Object.keys(src).filter(lang => !this.language || lang == this.language).forEach(lang => {
       const data = src[lang];
       Object.keys(data).forEach(word => {
         const list = data[word];
@@ -72,6 +75,8 @@ export class KeywordMatcher {
             break;
           default:
             if (keywords.section[word]) {
+              if (!this.sections[lang]) this.sections[lang] = {};
+              this.sections[lang][word] = list.filter(w => w);
               list.forEach(w => { if (w) keywords.section[word].push(w) });
               list.forEach(w => { if (w) keywords.primary.push(w) });
             } else {
@@ -120,4 +125,9 @@ export class KeywordMatcher {
     return res && res[0];
   }
 
+  public getSectionWords(key: string, language: string = this.language): string[] {
+    const words = this.sections[language] || this.sections["en"] || {};
+    return words[key] || [];
+  }
+
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { IWorkerModel, VAIndent, VAToken } from "./common";
+import { IWorkerModel, VAIndent, VAModelChange, VAToken } from "./common";
 import { KeywordMatcher } from "./matcher";
 
 function getIndent(text: string, tabSize: number) {
@@ -22,15 +22,27 @@ function getToken(text: string) {
   return VAToken.Operator;
 }
 
+function isMultiline(model: IWorkerModel, tokens: Array<VAIndent>, lineNumber: number) {
+  let multiline = false;
+  for (let i = lineNumber - 1; i > 0 && tokens[i - 1].token == VAToken.Multiline; i--) {
+    if (getToken(model.getLineContent(i)) == VAToken.Multiline) multiline = !multiline;
+  }
+  return multiline;
+}
+
 export function getModelTokens(
   matcher: KeywordMatcher,
   model: IWorkerModel,
   tabSize: number,
+  tokens: Array<VAIndent> = [],
 ): Array<VAIndent> {
-  const tokens: Array<VAIndent> = [];
-  let multiline = false;
   const lineCount = model.getLineCount();
-  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+  let firstLineNumber = 1;
+  while (firstLineNumber <= lineCount && tokens[firstLineNumber - 1]) firstLineNumber++;
+  let lastLineNumber = lineCount;
+  while (lastLineNumber > firstLineNumber && tokens[lastLineNumber - 1]) lastLineNumber--;
+  let multiline = isMultiline(model, tokens, firstLineNumber);
+  for (let lineNumber = firstLineNumber; lineNumber <= lineCount; lineNumber++) {
     let text = model.getLineContent(lineNumber);
     let token = getToken(text);
     if (multiline) {
@@ -39,27 +51,68 @@ export function getModelTokens(
     } else {
       if (token == VAToken.Multiline) multiline = true;
     }
-    if (token != VAToken.Operator && token != VAToken.Asterisk) {
-      tokens.push({ token: token, indent: 0 });
-    } else {
-      let ident = 0;
+    let ident = 0;
+    if (token == VAToken.Operator || token == VAToken.Asterisk) {
       if (matcher.isSection(text)) token = VAToken.Section;
       else ident = getIndent(text, tabSize);
-      tokens.push({ token: token, indent: ident });
     }
+    const prev = tokens[lineNumber - 1];
+    if (prev && lineNumber > lastLineNumber && token != VAToken.Multiline
+      && prev.token == token && prev.indent == ident) break;
+    tokens[lineNumber - 1] = { token: token, indent: ident };
   }
   return tokens;
 }
 
+export function getModelLanguage(content: string[]): string {
+  for (const line of content) {
+    const match = line.match(/^\s*#\s*language\s*:\s*([\w-]+)/i);
+    if (match) return match[1];
+    if (!/^\s*(#.*)?$/.test(line)) break;
+  }
+  return undefined;
+}
+
 export class WorkerModel implements IWorkerModel {
   private tokens: Array<VAIndent> = [];
   private content: string[];
   private versionId: number;
+  private tabSize: number;
+  public language: string;
 
   constructor(matcher: KeywordMatcher, msg: any) {
     this.content = msg.content;
     this.versionId = msg.versionId;
-    this.tokens = getModelTokens(matcher, this, msg.tabSize);
+    this.tabSize = msg.tabSize;
+    this.language = matcher?.language;
+    this.tokens = getModelTokens(matcher, this, this.tabSize);
+  }
+
+  applyChanges(
+    msg: { versionId: number, changes: VAModelChange[] },
+    getMatcher: (language: string) => KeywordMatcher,
+  ) {
+    msg.changes.forEach(change => {
+      const range = change.range;
+      const head = this.content[range.startLineNumber - 1].substring(0, range.startColumn - 1);
+      const tail = this.content[range.endLineNumber - 1].substring(range.endColumn - 1);
+      const lines = (head + change.text + tail).split(/\r\n|\r|\n/);
+      const count = range.endLineNumber - range.startLineNumber + 1;
+      this.content.splice(range.startLineNumber - 1, count, ...lines);
+      this.tokens.splice(range.startLineNumber - 1, count, ...lines.map(() => undefined));
+    });
+    this.versionId = msg.versionId;
+    this.tokens.forEach(token => { if (token) delete token.folding });
+    const matcher = getMatcher(getModelLanguage(this.content));
+    if (matcher?.language !== this.language) {
+      this.language = matcher?.language;
+      this.tokens = [];
+    }
+    this.tokens = getModelTokens(matcher, this, this.tabSize, this.tokens);
+  }
+
+  getVersionId(): number {
+    return this.versionId;
   }
 
   getLineContent(lineNumber: number): string {
@@ -0,0 +1,116 @@
+import { getLineMaxColumn, getLineMinColumn, getTableCells, IWorkerContext, IWorkerModel, VATableCell, VAToken } from './common';
+
+interface VAPlaceholder {
+  name: string;
+  lineNumber: number;
+  startColumn: number;
+  endColumn: number;
+}
+
+interface VAExamples {
+  lineNumber: number;
+  columns: VATableCell[];
+}
+
+class ScenarioOutline {
+  public placeholders: VAPlaceholder[] = [];
+  public examples: VAExamples[] = [];
+
+  public addPlaceholders(lineNumber: number, line: string) {
+    const regexp = /<([^<>]+)>/g;
+    let match = undefined;
+    while ((match = regexp.exec(line)) !== null) {
+      const startColumn = match.index + 1;
+      const endColumn = startColumn + match[0].length;
+      this.placeholders.push({ name: match[1].trim(), lineNumber, startColumn, endColumn });
+    }
+  }
+
+  public checkColumns(
+    ctx: IWorkerContext,
+    problems: monaco.editor.IMarkerData[],
+  ) {
+    const used = {};
+    this.placeholders.forEach(e => used[e.name.toLowerCase()] = true);
+    this.examples.forEach(examples => {
+      if (examples.lineNumber == 0) return;
+      const columns = {};
+      examples.columns.forEach(e => columns[e.text.toLowerCase()] = true);
+      this.placeholders.forEach(e => {
+        if (columns[e.name.toLowerCase()]) return;
+        problems.push({
+          severity: 8, // monaco.MarkerSeverity.Error = 8
+          message: `${ctx.messages.placeholderMsg}: <${e.name}>`,
+          code: "outline-placeholder",
+          startLineNumber: e.lineNumber,
+          endLineNumber: e.lineNumber,
+          startColumn: e.startColumn,
+          endColumn: e.endColumn,
+        });
+      });
+      examples.columns.forEach(e => {
+        if (used[e.text.toLowerCase()]) return;
+        problems.push({
+          severity: 4, // monaco.MarkerSeverity.Warning = 4
+          message: `${ctx.messages.columnMsg}: ${e.text}`,
+          code: "outline-column",
+          startLineNumber: examples.lineNumber,
+          endLineNumber: examples.lineNumber,
+          startColumn: e.startColumn,
+          endColumn: e.endColumn,
+        });
+      });
+    });
+  }
+}
+
+export function checkOutlines(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  const lineCount = model.getLineCount();
+  let outline: ScenarioOutline = undefined;
+  let examples: VAExamples = undefined;
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const line: string = model.getLineContent(lineNumber);
+    const token = model.getLineToken(lineNumber);
+    switch (token.token) {
+      case VAToken.Empty:
+      case VAToken.Comment:
+      case VAToken.Instruction:
+        continue;
+      case VAToken.Section:
+        const section = ctx.matcher.getSection(line);
+        if (section == "examples" && outline) {
+          outline.examples.push(examples = { lineNumber: 0, columns: [] });
+          continue;
+        }
+        if (outline) outline.checkColumns(ctx, problems);
+        examples = undefined;
+        outline = undefined;
+        if (section == "scenario" || section == "scenarioOutline")
+          outline = new ScenarioOutline;
+        continue;
+    }
+    if (outline === undefined) continue;
+    if (examples === undefined) {
+      outline.addPlaceholders(lineNumber, line);
+    } else if (token.token == VAToken.Parameter) {
+      const cells = getTableCells(line);
+      if (examples.lineNumber == 0) {
+        examples.lineNumber = lineNumber;
+        examples.columns = cells;
+      } else if (cells.length != examples.columns.length) problems.push({
+        severity: 8, // monaco.MarkerSeverity.Error = 8
+        message: ctx.messages.cellsMsg,
+        code: "table-shape",
+        startLineNumber: lineNumber,
+        endLineNumber: lineNumber,
+        startColumn: getLineMinColumn(line),
+        endColumn: getLineMaxColumn(line),
+      });
+    }
+  }
+  if (outline) outline.checkColumns(ctx, problems);
+}
@@ -2,50 +2,211 @@ import { createTokenizationSupport } from 'monaco-editor/esm/vs/editor/standalon
 import { StaticServices } from 'monaco-editor/esm/vs/editor/standalone/browser/standaloneServices';
 import { TokenizationRegistry, ITokenizationSupport } from 'monaco-editor/esm/vs/editor/common/modes';
 import { compile } from 'monaco-editor/esm/vs/editor/standalone/common/monarch/monarchCompile';
-import { MessageType, IVanessaModel, ISyntaxDecorations, WorkerMessage } from './common';
+import { canceled, isPromiseCanceledError } from 'monaco-editor/esm/vs/base/common/errors';
+import { MessageType, IVanessaModel, ISyntaxDecorations, WorkerMessage, type2str } from './common';
 import { language, GherkinLanguage } from './configuration';
 import { VanessaEditor } from "../../vanessa-editor";
-import { IVanessaAction } from "../../common";
+import { EventsManager, IVanessaAction, VanessaEditorEvent } from "../../common";
 import { KeywordMatcher } from './matcher';
 import { ActionManager } from '../../actions';
 import { VACodeError, VAQuickAction } from './quickfix';
+import { VADefinition } from './hiperlinks';
+import { VAReferences } from './references';
 
 const blob = require("blob-url-loader?type=application/javascript!compile-loader?target=worker&emit=false!/src/languages/turbo-gherkin/worker.js");
-const worker = new Worker(blob);
 let workerMessageId = 0;
+const maxPendingMessages = 100;
+const workerTimeout = 30000;
+const maxWorkerRestarts = 3;
+const workerQuietPeriod = 60000;
+let workerRestarts = 0;
+let workerRestartTimer = undefined;
+let workerError: string = undefined;
 const messageMap = new Map<number, any>();
+const workerConfig = new Map<MessageType, WorkerMessage>();
+const configOrder = [MessageType.SetKeywords, MessageType.SetKeypairs, MessageType.SetMetatags];
+let worker = createWorker();
+
+function createWorker(): Worker {
+  const worker = new Worker(blob);
+  worker.onmessage = onWorkerMessage;
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    restartWorker(e.message);
+  };
+  return worker;
+}
 
-worker.onmessage = function (e) {
+function onWorkerMessage(e: MessageEvent) {
   const msg = e.data;
-  const promise = msg.id && messageMap.get(msg.id);
+  if (msg.started) return startTimer(msg.id);
+  const promise = msg.id && takeMessage(msg.id);
   if (promise) {
-    messageMap.delete(msg.id);
     if (msg.success)
       promise.resolve(msg.data);
+    else if (msg.canceled)
+      promise.reject(canceled());
     else
       promise.reject(msg.data);
   }
 }
 
-function postMessage<T>(mod: monaco.editor.ITextModel, message: WorkerMessage)
-  : Promise<T> {
-  if (mod) {
-    const model = mod as IVanessaModel;
-    const versionId = model.getVersionId();
-    if (model.workerVersionId !== versionId) {
-      model.workerVersionId = versionId;
+function takeMessage(id: number) {
+  const promise = messageMap.get(id);
+  if (promise === undefined) return undefined;
+  messageMap.delete(id);
+  promise.listener?.dispose();
+  clearTimeout(promise.timer);
+  return promise;
+}
+
+function startTimer(id: number) {
+  const promise = messageMap.get(id);
+  if (promise === undefined) return;
+  const reason = `Worker request timeout: ${type2str(promise.type)}`;
+  promise.timer = setTimeout(() => restartWorker(reason), workerTimeout);
+}
+
+function cancelMessage(id: number) {
+  const promise = takeMessage(id);
+  if (promise === undefined) return;
+  worker?.postMessage({ type: MessageType.CancelMessage, data: id });
+  promise.reject(canceled());
+}
+
+function startWorker() {
+  worker?.terminate();
+  worker = createWorker();
+  getWorkerConfig().forEach(message => worker.postMessage(message));
+  monaco.editor.getModels().forEach((model: IVanessaModel) => {
+    if (model.workerVersionId === undefined) return;
+    model.workerVersionId = undefined;
+    updateWorkerModel(model);
+  });
+}
+
+export function restartWorker(reason: string) {
+  messageMap.forEach((value, id) => takeMessage(id).reject(new Error(reason)));
+  EventsManager.fireEvent(null, VanessaEditorEvent.ON_WORKER_ERROR, reason);
+  clearTimeout(workerRestartTimer);
+  if (++workerRestarts > maxWorkerRestarts) {
+    worker?.terminate();
+    worker = undefined;
+    workerError = reason;
+    return;
+  }
+  workerRestartTimer = setTimeout(() => workerRestarts = 0, workerQuietPeriod);
+  startWorker();
+}
+
+export function resetWorker() {
+  clearTimeout(workerRestartTimer);
+  workerRestarts = 0;
+  workerError = undefined;
+  startWorker();
+}
+
+export function getWorkerConfig(): WorkerMessage[] {
+  const result: WorkerMessage[] = [];
+  configOrder.forEach(type => workerConfig.has(type) && result.push(workerConfig.get(type)));
+  workerConfig.forEach((message, type) => configOrder.indexOf(type) < 0 && result.push(message));
+  return result;
+}
+
+function mergeObject(prev: string, next: string, getKey: (key: string) => string): string {
+  const result = JSON.parse(prev);
+  const index = {};
+  Object.keys(result).forEach(key => index[getKey(key)] = key);
+  const obj = JSON.parse(next);
+  Object.keys(obj).forEach(key => {
+    const old = index[getKey(key)];
+    if (old !== undefined) delete result[old];
+    index[getKey(key)] = key;
+    result[key] = obj[key];
+  });
+  return JSON.stringify(result);
+}
+
+function mergeArray(prev: string, next: string, getKey: (value: any) => string): string {
+  const list = JSON.parse(next) as any[];
+  const index = {};
+  list.forEach(e => index[getKey(e)] = true);
+  const result = (JSON.parse(prev) as any[]).filter(e => !index[getKey(e)]);
+  return JSON.stringify(result.concat(list));
+}
+
+function mergeConfig(prev: any, message: WorkerMessage): WorkerMessage {
+  const lower = (key: string) => key.toLowerCase();
+  switch (message.type) {
+    case MessageType.SetElements:
+    case MessageType.SetVariables:
+      return { ...message, values: mergeObject(prev.values, message.values, lower), clear: prev.clear };
+    case MessageType.SetTags:
+      const tag = (key: string) => key.replace(/^@/, "").toLowerCase();
+      return { ...message, data: mergeObject(prev.data, message.data, tag), clear: prev.clear };
+    case MessageType.SetSyntaxRules:
+      return { ...message, data: mergeObject(prev.data, message.data, lower), clear: prev.clear };
+    case MessageType.SetWorkspaceFiles:
+      return { ...message, data: mergeArray(prev.data, message.data, e => e.path), clear: prev.clear };
+    case MessageType.SetSteplist:
+      return { ...message, list: mergeArray(prev.list, message.list, e => e.insertText), clear: prev.clear };
+    default:
+      return message;
+  }
+}
+
+function postConfig(message: WorkerMessage) {
+  const prev = workerConfig.get(message.type);
+  const merge = prev && (message as any).clear === false;
+  workerConfig.set(message.type, merge ? mergeConfig(prev, message) : message);
+  worker?.postMessage(message);
+}
+
+function updateWorkerModel(model: IVanessaModel) {
+  if (worker === undefined) return;
+  const versionId = model.getVersionId();
+  if (model.workerVersionId === versionId) return;
+  model.workerVersionId = versionId;
+  worker.postMessage({
+    type: MessageType.UpdateModel,
+    content: model.getLinesContent(),
+    tabSize: model.getOptions().tabSize,
+    uri: model.uri.toString(),
+    versionId: versionId,
+  });
+  if (model.workerListeners) return;
+  model.workerListeners = [
+    model.onDidChangeContent(e => {
+      if (model.workerVersionId === undefined || worker === undefined) return;
+      model.workerVersionId = e.versionId;
       worker.postMessage({
-        type: MessageType.UpdateModel,
-        content: model.getLinesContent(),
-        tabSize: model.getOptions().tabSize,
+        type: MessageType.ChangeModel,
+        changes: e.changes.map(change => ({ range: change.range, text: change.text })),
         uri: model.uri.toString(),
-        versionId: versionId,
+        versionId: e.versionId,
       });
-    }
-  }
+    }),
+    model.onDidChangeOptions(e => {
+      if (e.tabSize) model.workerVersionId = undefined;
+    }),
+  ];
+}
+
+function postMessage<T>(
+  mod: monaco.editor.ITextModel,
+  message: WorkerMessage,
+  token: monaco.CancellationToken = undefined,
+): Promise<T> {
+  if (token?.isCancellationRequested) return Promise.reject(canceled());
+  if (worker === undefined) return Promise.reject(new Error(workerError));
+  if (mod) updateWorkerModel(mod as IVanessaModel);
   const id = message.id = ++workerMessageId;
+  messageMap.forEach((promise, key) => {
+    if (key <= id - maxPendingMessages) cancelMessage(key);
+  });
   function init(resolve, reject) {
-    messageMap.set(id, { resolve, reject });
+    const listener = token?.onCancellationRequested(() => cancelMessage(id));
+    messageMap.set(id, { resolve, reject, listener, type: message.type });
   }
   const promise = new Promise<T>(init);
   worker.postMessage(message);
@@ -53,7 +214,26 @@ function postMessage<T>(mod: monaco.editor.ITextModel, message: WorkerMessage)
 }
 
 export function clearWorkerCache(uri: monaco.Uri) {
-  worker.postMessage({ type: MessageType.DeleteModel, uri: uri.toString() });
+  worker?.postMessage({ type: MessageType.DeleteModel, uri: uri.toString() });
+}
+
+class GherkinTokenizerState implements monaco.languages.IState {
+  constructor(
+    public readonly language: string,
+    public readonly header: boolean,
+    public readonly state: monaco.languages.IState,
+  ) { }
+
+  public clone(): monaco.languages.IState {
+    return new GherkinTokenizerState(this.language, this.header, this.state.clone());
+  }
+
+  public equals(other: monaco.languages.IState): boolean {
+    return other instanceof GherkinTokenizerState
+      && other.language === this.language
+      && other.header === this.header
+      && other.state.equals(this.state);
+  }
 }
 
 export class VanessaGherkinProvider {
@@ -63,9 +243,11 @@ export class VanessaGherkinProvider {
   public get keypairs(): any { return this._keypairs; }
 
   private _metatags: string[] = ["try", "except", "попытка", "исключение"];
+  private _stats: any = {};
   private _keypairs: any = {};
   private _errorLinks = [];
   private _matcher: KeywordMatcher;
+  private _keywords: string;
   private _locale: string;
 
   public get metatags(): string[] {
@@ -87,7 +269,8 @@ export class VanessaGherkinProvider {
   public get matcher() { return this._matcher; }
 
   public setKeywords = (arg: string): void => {
-    worker.postMessage({ type: MessageType.SetKeywords, data: arg });
+    postConfig({ type: MessageType.SetKeywords, data: arg });
+    this._keywords = arg;
     this._matcher = new KeywordMatcher(arg);
     this.matcher.setKeypairs(this.keypairs);
     this.matcher.setMetatags(this.metatags);
@@ -101,7 +284,8 @@ export class VanessaGherkinProvider {
       this.keypairs[key.toLowerCase()] = data[key].map((w: string) => w.toLowerCase())
     );
     this.matcher?.setKeypairs(this.keypairs);
-    worker.postMessage({ type: MessageType.SetKeypairs, data: this.keypairs });
+    this.tokenizers.forEach(e => e.matcher.setKeypairs(this.keypairs));
+    postConfig({ type: MessageType.SetKeypairs, data: this.keypairs });
   }
 
   public setMetatags = (arg: string): void => {
@@ -110,27 +294,57 @@ export class VanessaGherkinProvider {
     list.forEach((w: string) => this._metatags.push(w));
     this.matcher?.setMetatags(this.metatags);
     this.initTokenizer();
-    worker.postMessage({ type: MessageType.SetMetatags, data: this.metatags });
+    postConfig({ type: MessageType.SetMetatags, data: this.metatags });
   }
 
   public setMessages = (arg: string): void => {
-    worker.postMessage({ type: MessageType.SetMessages, data: arg });
+    postConfig({ type: MessageType.SetMessages, data: arg });
   }
 
   public setImports = (arg: string): void => {
-    worker.postMessage({ type: MessageType.SetImports, data: arg });
+    postConfig({ type: MessageType.SetImports, data: arg });
   }
 
   public setElements = (values: string, clear: boolean = false): void => {
-    worker.postMessage({ type: MessageType.SetElements, values, clear });
+    postConfig({ type: MessageType.SetElements, values, clear });
   }
 
   public setVariables = (values: string, clear: boolean = false): void => {
-    worker.postMessage({ type: MessageType.SetVariables, values, clear });
+    postConfig({ type: MessageType.SetVariables, values, clear });
+  }
+
+  public setTags = (data: string, clear: boolean = false): void => {
+    postConfig({ type: MessageType.SetTags, data, clear });
+    VanessaEditor.checkAllSyntax();
+  }
+
+  public setSyntaxRules = (data: string, clear: boolean = false): void => {
+    postConfig({ type: MessageType.SetSyntaxRules, data, clear });
+    VanessaEditor.checkAllSyntax();
+  }
+
+  public getCompletionStats = (): string => {
+    return JSON.stringify(this._stats);
+  }
+
+  public setCompletionStats = (arg: string): void => {
+    this._stats = JSON.parse(arg);
+    postConfig({ type: MessageType.SetCompletionStats, data: arg });
+  }
+
+  public addCompletionStats(snippet: string) {
+    const e = this._stats[snippet] || { count: 0 };
+    this._stats[snippet] = { count: e.count + 1, time: Date.now() };
+    postConfig({ type: MessageType.SetCompletionStats, data: JSON.stringify(this._stats) });
+  }
+
+  public setWorkspaceFiles = (data: string, clear: boolean = false): void => {
+    postConfig({ type: MessageType.SetWorkspaceFiles, data, clear });
+    VanessaEditor.checkAllSyntax();
   }
 
   public setStepList = (list: string, clear: boolean = false): void => {
-    worker.postMessage({ type: MessageType.SetSteplist, list, clear });
+    postConfig({ type: MessageType.SetSteplist, list, clear });
     VanessaEditor.checkAllSyntax();
   }
 
@@ -180,8 +394,12 @@ export class VanessaGherkinProvider {
   ): monaco.languages.ProviderResult<monaco.languages.CodeActionList> {
     const errors: VACodeError[] = [];
     context.markers.forEach((e, index) => {
-      if (e.severity === monaco.MarkerSeverity.Error) {
+      if (e.code === "unknown-step") {
         errors.push({ index, value: model.getLineContent(e.endLineNumber) });
+      } else if (e.code === "param-type") {
+        errors.push({ index, value: model.getLineContent(e.endLineNumber), column: e.startColumn });
+      } else if (e.code === "unknown-tag") {
+        errors.push({ index, value: model.getLineContent(e.endLineNumber), column: e.startColumn, code: e.code });
       }
     });
     if (errors.length == 0) return undefined;
@@ -191,7 +409,7 @@ export class VanessaGherkinProvider {
       uri: model.uri.toString(),
       errors: errors,
     };
-    return postMessage<VAQuickAction[]>(model, message).then(msg => {
+    return postMessage<VAQuickAction[]>(model, message, token).then(msg => {
       const actions: Array<monaco.languages.CodeAction> = [];
       msg.forEach((e, i) => {
         const marker = context.markers[e.index];
@@ -223,16 +441,87 @@ export class VanessaGherkinProvider {
       type: MessageType.GetCodeFolding,
       versionId: model.getVersionId(),
       uri: model.uri.toString(),
+    }, token);
+  }
+
+  public provideDefinition(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.Definition> {
+    return postMessage<VADefinition>(model, {
+      type: MessageType.GetDefinition,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      lineNumber: position.lineNumber,
+      column: position.column,
+    }, token).then(data => {
+      if (!data) return undefined;
+      if (data.scenario) {
+        const uri = monaco.Uri.from({ scheme: "scenario", path: data.file });
+        return { uri, range: data.range };
+      }
+      if (data.range) return { uri: model.uri, range: data.range };
+      const uri = monaco.Uri.from({ scheme: "import", path: data.file, fragment: data.key });
+      const line = data.line || 1;
+      return { uri, range: new monaco.Range(line, 1, line, 1) };
     });
   }
 
+  public provideDocumentSymbols(model: monaco.editor.ITextModel, token: monaco.CancellationToken)
+    : monaco.languages.ProviderResult<monaco.languages.DocumentSymbol[]> {
+    return this.getDocumentSymbols(model);
+  }
+
+  public getDocumentSymbols(model: monaco.editor.ITextModel)
+    : Promise<monaco.languages.DocumentSymbol[]> {
+    return postMessage<monaco.languages.DocumentSymbol[]>(model, {
+      type: MessageType.GetDocumentSymbols,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+    });
+  }
+
+  public provideDocumentFormattingEdits(
+    model: monaco.editor.ITextModel,
+    options: monaco.languages.FormattingOptions,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.TextEdit[]> {
+    return postMessage<monaco.languages.TextEdit[]>(model, {
+      type: MessageType.GetFormattingEdits,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      options: { tabSize: options.tabSize, insertSpaces: options.insertSpaces },
+    }, token);
+  }
+
+  public provideDocumentRangeFormattingEdits(
+    model: monaco.editor.ITextModel,
+    range: monaco.Range,
+    options: monaco.languages.FormattingOptions,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.TextEdit[]> {
+    return postMessage<monaco.languages.TextEdit[]>(model, {
+      type: MessageType.GetFormattingEdits,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      range: {
+        startLineNumber: range.startLineNumber,
+        startColumn: range.startColumn,
+        endLineNumber: range.endLineNumber,
+        endColumn: range.endColumn,
+      },
+      options: { tabSize: options.tabSize, insertSpaces: options.insertSpaces },
+    }, token);
+  }
+
   public provideLinks(model: monaco.editor.ITextModel, token: monaco.CancellationToken)
     : monaco.languages.ProviderResult<monaco.languages.ILinksList> {
     return postMessage<monaco.languages.ILinksList>(model, {
       type: MessageType.GetHiperlinks,
       versionId: model.getVersionId(),
       uri: model.uri.toString(),
-    });
+    }, token);
   }
 
   public getLinkData(model: monaco.editor.ITextModel, key: string)
@@ -245,38 +534,127 @@ export class VanessaGherkinProvider {
     });
   }
 
+  public provideReferences(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    context: monaco.languages.ReferenceContext,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.Location[]> {
+    return postMessage<VAReferences>(model, {
+      type: MessageType.GetReferences,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      lineNumber: position.lineNumber,
+      column: position.column,
+    }, token).then(data => {
+      if (!data) return [];
+      const ranges = data.definition && context.includeDeclaration
+        ? [data.definition].concat(data.ranges) : data.ranges;
+      return ranges.map(range => ({ uri: model.uri, range }));
+    });
+  }
+
+  public resolveRenameLocation(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.RenameLocation & monaco.languages.Rejection> {
+    return postMessage<monaco.languages.RenameLocation & monaco.languages.Rejection>(model, {
+      type: MessageType.GetRenameLocation,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      lineNumber: position.lineNumber,
+      column: position.column,
+    }, token);
+  }
+
+  public provideRenameEdits(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    newName: string,
+    token: monaco.CancellationToken,
+  ): monaco.languages.ProviderResult<monaco.languages.WorkspaceEdit & monaco.languages.Rejection> {
+    return postMessage<{ ranges?: monaco.IRange[], rejectReason?: string }>(model, {
+      type: MessageType.GetRenameEdits,
+      versionId: model.getVersionId(),
+      uri: model.uri.toString(),
+      lineNumber: position.lineNumber,
+      column: position.column,
+      newName,
+    }, token).then(data => {
+      if (!data) return { edits: [] };
+      if (data.rejectReason) return { edits: [], rejectReason: data.rejectReason };
+      return {
+        edits: data.ranges.map(range => ({
+          resource: model.uri,
+          edit: { range, text: newName },
+        }))
+      };
+    });
+  }
+
   public provideHover(
     model: monaco.editor.ITextModel,
     position: monaco.Position,
+    token: monaco.CancellationToken,
   ): monaco.languages.ProviderResult<monaco.languages.Hover> {
     return postMessage<monaco.languages.Hover>(model, {
       type: MessageType.GetLineHover,
       versionId: model.getVersionId(),
       uri: model.uri.toString(),
       lineNumber: position.lineNumber,
+      column: position.column,
       minColumn: model.getLineMinColumn(position.lineNumber),
       maxColumn: model.getLineMaxColumn(position.lineNumber),
-    });
+    }, token);
   }
 
   public provideCompletionItems(
     model: monaco.editor.ITextModel,
     position: monaco.Position,
+    context: monaco.languages.CompletionContext,
+    token: monaco.CancellationToken,
   ): monaco.languages.ProviderResult<monaco.languages.CompletionList> {
     return postMessage<monaco.languages.CompletionList>(
-      undefined,
+      model,
       {
         type: MessageType.GetCompletions,
+        versionId: model.getVersionId(),
+        uri: model.uri.toString(),
         line: model.getLineContent(position.lineNumber),
         lineNumber: position.lineNumber,
-        column: position.column
-      });
+        column: position.column,
+        locale: this.locale,
+      }, token);
   }
 
+  public triggerCharacters = ["@"];
+
   public resolveCompletionItem(item, token) {
     return item;
   }
 
+  public signatureHelpTriggerCharacters = ['"', "'", "<"];
+  public signatureHelpRetriggerCharacters = [" "];
+
+  public provideSignatureHelp(
+    model: monaco.editor.ITextModel,
+    position: monaco.Position,
+    token: monaco.CancellationToken,
+    context: monaco.languages.SignatureHelpContext,
+  ): monaco.languages.ProviderResult<monaco.languages.SignatureHelpResult> {
+    return postMessage<monaco.languages.SignatureHelp>(
+      model,
+      {
+        type: MessageType.GetSignatureHelp,
+        versionId: model.getVersionId(),
+        uri: model.uri.toString(),
+        line: model.getLineContent(position.lineNumber),
+        lineNumber: position.lineNumber,
+        column: position.column
+      }, token).then(value => value ? { value, dispose: () => { } } : undefined);
+  }
+
   public checkSyntax(m: monaco.editor.ITextModel) {
     const model = m as IVanessaModel;
     if (model.getLanguageId() != language.id) return;
@@ -288,30 +666,59 @@ export class VanessaGherkinProvider {
       const oldDecorations = model.stepDecorations || [];
       model.stepDecorations = model.deltaDecorations(oldDecorations, result.decorations);
       monaco.editor.setModelMarkers(model, "syntax", result.problems);
+    }).catch(error => {
+      if (isPromiseCanceledError(error)) return;
+      EventsManager.fireEvent(null, VanessaEditorEvent.ON_WORKER_ERROR, String(error?.message || error));
     });
   }
 
   private tokenizer: ITokenizationSupport;
+  private tokenizers = new Map<string, { matcher: KeywordMatcher, tokenizer: ITokenizationSupport }>();
 
-  public initTokenizer() {
-    let lang = new GherkinLanguage(this);
-    if (this.tokenizer) this.tokenizer.dispose();
-    this.tokenizer = createTokenizationSupport(
+  private createTokenizer(matcher: KeywordMatcher): ITokenizationSupport {
+    return createTokenizationSupport(
       StaticServices.modeService.get(),
       StaticServices.standaloneThemeService.get(),
       language.id,
-      compile(language.id, lang),
+      compile(language.id, new GherkinLanguage(this, matcher)),
     );
   }
 
+  public initTokenizer() {
+    if (this.tokenizer) this.tokenizer.dispose();
+    this.tokenizers.forEach(e => e.tokenizer.dispose());
+    this.tokenizers.clear();
+    this.tokenizer = this.createTokenizer(this.matcher);
+  }
+
+  private getTokenizer(lang: string): { matcher: KeywordMatcher, tokenizer: ITokenizationSupport } {
+    if (!lang) return { matcher: this.matcher, tokenizer: this.tokenizer };
+    if (!this.tokenizers.has(lang)) {
+      const matcher = new KeywordMatcher(this._keywords, lang);
+      matcher.setKeypairs(this.keypairs);
+      matcher.setMetatags(this.metatags);
+      const tokenizer = matcher.language ? this.createTokenizer(matcher) : undefined;
+      this.tokenizers.set(lang, { matcher, tokenizer });
+    }
+    const result = this.tokenizers.get(lang);
+    return result.tokenizer ? result : { matcher: this.matcher, tokenizer: this.tokenizer };
+  }
+
   public getInitialState(): monaco.languages.IState {
-    return this.tokenizer.getInitialState();
+    return new GherkinTokenizerState(undefined, true, this.tokenizer.getInitialState());
   }
 
   public tokenize(line: string, state: monaco.languages.IState): monaco.languages.ILineTokens {
+    let { language: lang, header } = state as GherkinTokenizerState;
+    if (header) {
+      const match = line.match(/^\s*#\s*language\s*:\s*([\w-]+)/i);
+      if (match) lang = match[1];
+      if (match || !/^\s*(#.*)?$/.test(line)) header = false;
+    }
+    const { matcher, tokenizer } = this.getTokenizer(lang);
     var BreakException = {};
     try {
-      this.matcher.keypairs.forEach(regexp => {
+      matcher.keypairs.forEach(regexp => {
         const match = line.match(regexp);
         if (match === null) return;
         const length = line.length;
@@ -323,9 +730,9 @@ export class VanessaGherkinProvider {
       if (e !== BreakException) throw e;
     }
     let tokens = [];
-    let result = this.tokenizer.tokenize(line, true, state, 0);
+    let result = tokenizer.tokenize(line, true, (state as GherkinTokenizerState).state, 0);
     result.tokens.forEach((t: monaco.Token) => tokens.push({ startIndex: t.offset, scopes: t.type }));
-    return { tokens: tokens, endState: result.endState };
+    return { tokens: tokens, endState: new GherkinTokenizerState(lang, header, result.endState) };
   }
 
   public logTokens(model: monaco.editor.ITextModel) {
@@ -1,10 +1,13 @@
 import * as distance from 'jaro-winkler';
 import { IWorkerContext, IWorkerModel } from './common';
 import { VAStepLine } from './stepline';
+import { getTagAt } from './tags';
 
 export interface VACodeError {
   index: number;
   value: string;
+  column?: number;
+  code?: string;
 }
 
 export interface VAQuickAction {
@@ -36,10 +39,49 @@ function addQuickFix(ctx: IWorkerContext, list: VAQuickItem[], line: string, ind
   }
 }
 
+function addParamFix(ctx: IWorkerContext, result: VAQuickAction[], line: string, index: number, column: number) {
+  const step = new VAStepLine(ctx.matcher, line);
+  if (step.invalid) return;
+  const data = ctx.steplist[step.snippet];
+  if (!data) return;
+  const values = step.getParamValues(data, column);
+  if (!values) return;
+  const regexp = new RegExp(ctx.matcher.tokens.param.source + "|" + ctx.matcher.tokens.number.source, "gu");
+  let match = undefined;
+  while ((match = regexp.exec(line)) !== null) {
+    const startColumn = match.index + 1;
+    const endColumn = startColumn + match[0].length;
+    if (column < startColumn || column >= endColumn) continue;
+    const Q = /^["']/.test(match[0]) ? match[0].charAt(0) : '"';
+    values.forEach(value => result.push({ label: value, text: `${Q}${value}${Q}`, index, startColumn, endColumn }));
+    return;
+  }
+}
+
+function addTagFix(ctx: IWorkerContext, result: VAQuickAction[], line: string, index: number, column: number) {
+  const tag = getTagAt(line, column);
+  if (tag === undefined) return;
+  const name = tag.name.toLowerCase();
+  Object.keys(ctx.tags)
+    .map(key => ({ name: ctx.tags[key].name, sum: distance(name, key) }))
+    .filter(e => e.sum > 0.7)
+    .sort((a, b) => b.sum - a.sum)
+    .forEach((e, i) => {
+      if (i > 2) return;
+      const text = "@" + e.name;
+      const label = `${ctx.messages.tagFix} ${text}`;
+      result.push({ label, text, index, startColumn: tag.startColumn, endColumn: tag.endColumn });
+    });
+}
+
 export function getCodeActions(ctx: IWorkerContext, model: IWorkerModel, msg: { errors: VACodeError[] }): VAQuickAction[] {
   const result = [];
   const list: VAQuickItem[] = [];
-  msg.errors.forEach(e => addQuickFix(ctx, list, e.value, e.index));
+  msg.errors.forEach(e => {
+    if (e.code === "unknown-tag") addTagFix(ctx, result, e.value, e.index, e.column);
+    else if (e.column) addParamFix(ctx, result, e.value, e.index, e.column);
+    else addQuickFix(ctx, list, e.value, e.index);
+  });
   list.sort((a, b) => b.sum - a.sum).forEach((e, i) => {
     if (i > 6) return;
     const label = ctx.steplist[e.snippet].head.inplaceParams(e.step);
@@ -0,0 +1,191 @@
+import { getTableCells, IWorkerContext, IWorkerModel } from './common';
+import { getLinks, getQuotedParams, VALinkDuplicate } from './hiperlinks';
+
+export interface VAReferences {
+  text: string;
+  range: monaco.IRange;
+  definition?: monaco.IRange;
+  ranges: monaco.IRange[];
+  imported: boolean;
+}
+
+interface VALinkTarget {
+  table: string;
+  row: string;
+}
+
+interface VALinkUsage extends VALinkTarget {
+  range: monaco.IRange;
+}
+
+const namePattern = /^\p{L}[\p{L}\p{N}]*$/u;
+const pattern = /^(\p{L}[\p{L}\p{N}]*)(\.\p{L}[\p{L}\p{N}]*)*$/u;
+
+function getUsages(links: any, lineNumber: number, line: string): VALinkUsage[] {
+  const result: VALinkUsage[] = [];
+  const addUsages = (text: string, offset: number) => {
+    if (!pattern.test(text)) return;
+    const names = text.split(".");
+    const words = names.map((w: string) => w.toLowerCase());
+    const usage = (table: string, row: string, index: number) => {
+      let startColumn = offset;
+      for (let i = 0; i < index; i++) startColumn += names[i].length + 1;
+      const endColumn = startColumn + names[index].length;
+      result.push({ table, row, range: { startLineNumber: lineNumber, startColumn, endLineNumber: lineNumber, endColumn } });
+    }
+    const exists = (table: string, row: string) => links[table] && links[table][row];
+    switch (words.length) {
+      case 1:
+        if (exists("", words[0])) usage("", words[0], 0);
+        break;
+      case 2:
+        if (exists(words[0], words[1])) usage(words[0], words[1], 1);
+        else if (exists("", words[0])) usage("", words[0], 0);
+        break;
+      case 3:
+        if (exists(words[0], words[1])) usage(words[0], words[1], 1);
+        break;
+    }
+  }
+  getQuotedParams(line).forEach(param => {
+    const text = param.text;
+    if (pattern.test(text)) return addUsages(text, param.startColumn);
+    const regexp = /\$([^\s$]+)\$/g;
+    let match = undefined;
+    while ((match = regexp.exec(text)) !== null) {
+      addUsages(match[1], param.startColumn + match.index + 1);
+    }
+  });
+  return result;
+}
+
+function getDefinitionRange(model: IWorkerModel, lineNumber: number): monaco.IRange {
+  const line = model.getLineContent(lineNumber);
+  const cell = getTableCells(line)[0];
+  if (cell) {
+    const quoted = /^(["']).*\1$/.test(cell.text) ? 1 : 0;
+    return {
+      startLineNumber: lineNumber,
+      startColumn: cell.startColumn + quoted,
+      endLineNumber: lineNumber,
+      endColumn: cell.endColumn - quoted,
+    };
+  }
+  const match = line.match(/^(\s*)(\p{L}[\p{L}\p{N}]*)/u);
+  if (match) return {
+    startLineNumber: lineNumber,
+    startColumn: match[1].length + 1,
+    endLineNumber: lineNumber,
+    endColumn: match[1].length + match[2].length + 1,
+  };
+}
+
+function findDefinition(links: any, lineNumber: number): VALinkTarget {
+  for (let table in links) {
+    for (let row in links[table]) {
+      const data = links[table][row];
+      if (!data.file && data.line === lineNumber) return { table, row };
+    }
+  }
+}
+
+function inRange(range: monaco.IRange, column: number) {
+  return range.startColumn <= column && column <= range.endColumn;
+}
+
+export function getReferences(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { lineNumber: number, column: number }
+): VAReferences {
+  const lineCount = model.getLineCount();
+  const position = { lineNumber: 1, lineCount: lineCount };
+  const links = getLinks(ctx.matcher, model, position);
+  let target: VALinkTarget = undefined;
+  let range: monaco.IRange = undefined;
+  if (msg.lineNumber > position.lineNumber) {
+    const line = model.getLineContent(msg.lineNumber);
+    const usage = getUsages(links, msg.lineNumber, line).filter(e => inRange(e.range, msg.column))[0];
+    if (usage) { target = usage; range = usage.range; }
+  } else {
+    target = findDefinition(links, msg.lineNumber);
+    if (target) range = getDefinitionRange(model, msg.lineNumber);
+    if (range && !inRange(range, msg.column)) target = undefined;
+  }
+  if (target === undefined || range === undefined) return null;
+  const data = links[target.table][target.row];
+  const definition = data.file ? undefined : getDefinitionRange(model, data.line);
+  const ranges: monaco.IRange[] = [];
+  for (let lineNumber = position.lineNumber + 1; lineNumber <= lineCount; lineNumber++) {
+    const line = model.getLineContent(lineNumber);
+    getUsages(links, lineNumber, line).forEach(e => {
+      if (e.table === target.table && e.row === target.row) ranges.push(e.range);
+    });
+  }
+  const line = model.getLineContent(range.startLineNumber);
+  const text = line.substring(range.startColumn - 1, range.endColumn - 1);
+  return { text, range, definition, ranges, imported: Boolean(data.file) };
+}
+
+export function getRenameLocation(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { lineNumber: number, column: number }
+): { range?: monaco.IRange, text?: string, rejectReason?: string } {
+  const result = getReferences(ctx, model, msg);
+  if (result === null || result.imported) return { rejectReason: ctx.messages.renameMsg };
+  return { range: result.range, text: result.text };
+}
+
+export function getRenameEdits(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { lineNumber: number, column: number, newName: string }
+): { ranges?: monaco.IRange[], rejectReason?: string } {
+  if (!namePattern.test(msg.newName)) return { rejectReason: ctx.messages.renameNameMsg };
+  const result = getReferences(ctx, model, msg);
+  if (result === null || !result.definition) return { ranges: [] };
+  return { ranges: [result.definition].concat(result.ranges) };
+}
+
+export function checkVariables(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  const lineCount = model.getLineCount();
+  const position = { lineNumber: 1, lineCount: lineCount };
+  const duplicates: VALinkDuplicate[] = [];
+  const links = getLinks(ctx.matcher, model, position, duplicates);
+  const used = {};
+  const text = (range: monaco.IRange) => model.getLineContent(range.startLineNumber)
+    .substring(range.startColumn - 1, range.endColumn - 1);
+  for (let lineNumber = position.lineNumber + 1; lineNumber <= lineCount; lineNumber++) {
+    const line = model.getLineContent(lineNumber);
+    getUsages(links, lineNumber, line).forEach(e => used[e.table + "." + e.row] = true);
+  }
+  for (let table in links) {
+    for (let row in links[table]) {
+      const data = links[table][row];
+      if (data.file || used[table + "." + row]) continue;
+      const range = getDefinitionRange(model, data.line);
+      if (range) problems.push({
+        ...range,
+        severity: 4, // monaco.MarkerSeverity.Warning = 4
+        message: `${ctx.messages.unusedMsg}: ${text(range)}`,
+        code: "unused-variable",
+        tags: [1], // monaco.MarkerTag.Unnecessary = 1
+      });
+    }
+  }
+  duplicates.forEach(e => {
+    const range = getDefinitionRange(model, e.lineNumber);
+    const imported = ctx.matcher.import.test(model.getLineContent(e.lineNumber));
+    if (range) problems.push({
+      ...range,
+      severity: 4, // monaco.MarkerSeverity.Warning = 4
+      message: `${ctx.messages.duplicateMsg}: ${imported ? e.key : text(range)}`,
+      code: "duplicate-variable",
+    });
+  });
+}
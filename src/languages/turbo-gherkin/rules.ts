@@ -0,0 +1,43 @@
+import { IWorkerContext, IWorkerModel, VAToken } from './common';
+
+export function setSyntaxRules(ctx: IWorkerContext, msg: { data: string, clear: boolean }) {
+  if (msg.clear) ctx.rules = {};
+  const obj = JSON.parse(msg.data);
+  for (let key in obj) {
+    ctx.rules[key.toLowerCase()] = obj[key];
+  }
+}
+
+function getSeverity(value: any, severity: monaco.MarkerSeverity): monaco.MarkerSeverity {
+  switch (String(value).toLowerCase()) {
+    case "off": case "false": return undefined;
+    case "hint": return 1; // monaco.MarkerSeverity.Hint = 1
+    case "info": return 2; // monaco.MarkerSeverity.Info = 2
+    case "warning": return 4; // monaco.MarkerSeverity.Warning = 4
+    case "error": return 8; // monaco.MarkerSeverity.Error = 8
+    default: return severity;
+  }
+}
+
+function getDisabledRules(model: IWorkerModel, lineNumber: number): string[] {
+  if (lineNumber < 1 || model.getLineToken(lineNumber).token != VAToken.Comment) return undefined;
+  const match = model.getLineContent(lineNumber).match(/^\s*(?:#|\/\/)\s*vanessa-disable-next-line\b(.*)$/i);
+  if (match === null) return undefined;
+  return match[1].split(/[\s,]+/).filter(w => w).map(w => w.toLowerCase());
+}
+
+export function applySyntaxRules(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+): monaco.editor.IMarkerData[] {
+  const result: monaco.editor.IMarkerData[] = [];
+  problems.forEach(problem => {
+    const code = String(problem.code).toLowerCase();
+    const disabled = getDisabledRules(model, problem.startLineNumber - 1);
+    if (disabled && (disabled.length == 0 || disabled.indexOf(code) >= 0)) return;
+    const severity = getSeverity(ctx.rules[code], problem.severity);
+    if (severity) result.push({ ...problem, severity });
+  });
+  return result;
+}
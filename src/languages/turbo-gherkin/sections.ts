@@ -0,0 +1,92 @@
+import { getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel, VAToken } from './common';
+
+interface VASection {
+  key: string;
+  lineNumber: number;
+  steps: number;
+  rows: number;
+  examples?: boolean;
+}
+
+function sectionProblem(
+  model: IWorkerModel,
+  lineNumber: number,
+  message: string,
+  code: string,
+): monaco.editor.IMarkerData {
+  const line = model.getLineContent(lineNumber);
+  return {
+    severity: 4, // monaco.MarkerSeverity.Warning = 4
+    message,
+    code,
+    startLineNumber: lineNumber,
+    endLineNumber: lineNumber,
+    startColumn: getLineMinColumn(line),
+    endColumn: getLineMaxColumn(line),
+  };
+}
+
+export function checkSections(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  const lineCount = model.getLineCount();
+  let names = {};
+  let section: VASection = undefined;
+  let outline: VASection = undefined;
+  const closeSection = () => {
+    if (section === undefined) return;
+    switch (section.key) {
+      case "background":
+      case "scenario":
+      case "scenarioOutline":
+        if (section.steps == 0)
+          problems.push(sectionProblem(model, section.lineNumber, ctx.messages.stepsMsg, "empty-section"));
+        break;
+      case "examples":
+        if (section.rows < 2)
+          problems.push(sectionProblem(model, section.lineNumber, ctx.messages.rowsMsg, "empty-examples"));
+        break;
+    }
+    section = undefined;
+  }
+  const closeOutline = () => {
+    if (outline && !outline.examples)
+      problems.push(sectionProblem(model, outline.lineNumber, ctx.messages.examplesMsg, "missing-examples"));
+    outline = undefined;
+  }
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const line: string = model.getLineContent(lineNumber);
+    switch (model.getLineToken(lineNumber).token) {
+      case VAToken.Section:
+        closeSection();
+        const key = ctx.matcher.getSection(line);
+        section = { key, lineNumber, steps: 0, rows: 0 };
+        if (key == "examples") {
+          if (outline) outline.examples = true;
+          continue;
+        }
+        closeOutline();
+        if (key == "feature") names = {};
+        if (key == "scenarioOutline") outline = section;
+        if (key == "scenario" || key == "scenarioOutline") {
+          const name = line.substring(line.indexOf(":") + 1).trim();
+          const id = name.toLowerCase().replace(/\s+/g, " ");
+          if (id && names[id]) problems.push(sectionProblem(model, lineNumber,
+            `${ctx.messages.scenarioMsg}: ${name}`, "duplicate-scenario"));
+          names[id] = true;
+        }
+        continue;
+      case VAToken.Operator:
+      case VAToken.Asterisk:
+        if (section) section.steps++;
+        continue;
+      case VAToken.Parameter:
+        if (section) section.rows++;
+        continue;
+    }
+  }
+  closeSection();
+  closeOutline();
+}
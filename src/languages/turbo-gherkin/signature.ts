@@ -0,0 +1,48 @@
+import { IWorkerContext } from './common';
+import { KeywordMatcher } from './matcher';
+import { VAStepLine } from './stepline';
+import { VAStepData } from './steplist';
+
+const maxSignatures = 10;
+
+function getStepPrefix(matcher: KeywordMatcher, text: string): { step: VAStepLine, index: number } {
+  // the argument under the cursor may still be unclosed, so try to close it
+  const endings = ["", '"', "'", ">"];
+  for (let i = 0; i < endings.length; i++) {
+    const step = new VAStepLine(matcher, text + endings[i]);
+    if (step.invalid) return undefined;
+    const offset = text.length - step.keyword.length;
+    let index = -1;
+    step.paramOffsets.forEach(([start, end], n) => {
+      if (start < offset && offset <= end) index = n;
+    });
+    if (index >= 0) return { step, index };
+  }
+  return undefined;
+}
+
+export function getSignatureHelp(
+  ctx: IWorkerContext,
+  msg: { line: string, lineNumber: number, column: number }
+): monaco.languages.SignatureHelp {
+  const prefix = getStepPrefix(ctx.matcher, msg.line.substring(0, msg.column - 1));
+  if (prefix === undefined) return null;
+  const activeParameter = prefix.index;
+  const snippet = prefix.step.snippet;
+  const line = new VAStepLine(ctx.matcher, msg.line);
+  const exact = line.invalid ? undefined : line.snippet;
+  const signatures: monaco.languages.SignatureInformation[] = [];
+  Object.keys(ctx.steplist)
+    .filter(key => key === snippet || snippet === "" || key.indexOf(snippet + " ") === 0)
+    .sort((a, b) => (a === exact ? 0 : 1) - (b === exact ? 0 : 1))
+    .forEach(key => {
+      if (signatures.length >= maxSignatures) return;
+      const step = ctx.steplist[key] as VAStepData;
+      const label = new VAStepLine(ctx.matcher, step.head.keyword + step.label);
+      const parameters = label.paramOffsets.map(e => ({ label: e }));
+      if (parameters.length <= activeParameter) return;
+      signatures.push({ label: step.label, documentation: step.documentation, parameters });
+    });
+  if (signatures.length == 0) return null;
+  return { signatures, activeSignature: 0, activeParameter };
+}
@@ -1,6 +1,6 @@
-import { IWorkerContext } from "./common";
+import { escapeSnippet, getLineMaxColumn, getLineMinColumn, IWorkerContext } from "./common";
 import { KeywordMatcher } from "./matcher";
-import { VAStepData } from "./steplist";
+import { VAStepData, VAStepParam } from "./steplist";
 
 export enum VAWordType {
   Identifier = 1,
@@ -15,12 +15,12 @@ export interface VAStepWord {
 }
 
 function stepDecoration(
-  step: VAStepData,
+  kind: number,
   lineNumber: number,
 ): monaco.editor.IModelDeltaDecoration {
   let glyph = undefined;
   let style = undefined;
-  switch (step.kind) {
+  switch (kind) {
     case 5: glyph = "codicon-symbol-class"; break; // if..else
     case 8: glyph = "codicon-git-compare"; break;  // do..while
     case 17: style = "vanessa-style-underline"; break; // scenario
@@ -59,6 +59,27 @@ function getSnuppet(matcher: KeywordMatcher, steptext: string) {
   return words.join(" ");
 }
 
+function isParamValid(ctx: IWorkerContext, param: VAStepParam, word: VAStepWord): boolean {
+  if (word.type === VAWordType.Parameter && /^(<.*>|.\$.+\$.)$/.test(word.text)) return true;
+  const quoted = word.type === VAWordType.Parameter;
+  const value = quoted ? word.text.substring(1, word.text.length - 1) : word.text;
+  if (param.type !== "string" && param.type !== "enum" && ctx.variables[value.toLowerCase()]) return true;
+  switch (param.type) {
+    case "string":
+      return quoted;
+    case "number":
+      return /^\s*-?(\d*[.,])?\d+\s*$/.test(value);
+    case "date":
+      return /^\d{1,2}\.\d{1,2}\.\d{2,4}(\s+\d{1,2}:\d{2}(:\d{2})?)?$/.test(value)
+        || /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(value);
+    case "boolean":
+      return ["true", "false", "истина", "ложь", "да", "нет", "1", "0"].indexOf(value.toLowerCase()) >= 0;
+    case "enum":
+      return (param.values || []).some(v => v.toLowerCase() === value.toLowerCase());
+  }
+  return true;
+}
+
 export class VAStepLine {
   private _keyword: string;
   private _words: VAStepWord[] = [];
@@ -95,15 +116,33 @@ export class VAStepLine {
     return this._keyword;
   }
 
+  private inplaceElement(ctx: IWorkerContext, w: VAStepWord): string {
+    if (w.type !== VAWordType.Parameter) return w.text;
+    let name = w.text.substring(1, w.text.length - 1).toLowerCase();
+    let elem = ctx.elements[name];
+    if (!elem) return w.text;
+    let Q1 = w.text.charAt(0);
+    let Q2 = w.text.charAt(w.text.length - 1);
+    return `${Q1}${elem.value}${Q2}`;
+  }
+
   public inplaceElements(ctx: IWorkerContext): string {
-    return this._words.map((w: VAStepWord): string => {
-      if (w.type !== VAWordType.Parameter) return w.text;
-      let name = w.text.substring(1, w.text.length - 1).toLowerCase();
-      let elem = ctx.elements[name];
-      if (!elem) return w.text;
-      let Q1 = w.text.charAt(0);
-      let Q2 = w.text.charAt(w.text.length - 1);
-      return `${Q1}${elem}${Q2}`;
+    return this._words.map(w => this.inplaceElement(ctx, w)).join("");
+  }
+
+  public inplaceSnippet(ctx: IWorkerContext): string {
+    let index = 0;
+    return this._words.map(w => {
+      const text = this.inplaceElement(ctx, w);
+      switch (w.type) {
+        case VAWordType.Parameter:
+          const value = escapeSnippet(text.substring(1, text.length - 1));
+          return `${text.charAt(0)}\${${++index}:${value}}${text.charAt(text.length - 1)}`;
+        case VAWordType.Numerical:
+          return `\${${++index}:${escapeSnippet(text)}}`;
+        default:
+          return escapeSnippet(text);
+      }
     }).join("");
   }
 
@@ -119,6 +158,17 @@ export class VAStepLine {
     }).join("");
   }
 
+  public get paramOffsets(): Array<[number, number]> {
+    let offset = 0;
+    const result: Array<[number, number]> = [];
+    this._words.forEach(w => {
+      if (w.type === VAWordType.Numerical || w.type === VAWordType.Parameter)
+        result.push([offset, offset + w.text.length]);
+      offset += w.text.length;
+    });
+    return result;
+  }
+
   private get params(): string[] {
     return this._words.filter(
       w => w.type === VAWordType.Numerical || w.type === VAWordType.Parameter
@@ -130,19 +180,81 @@ export class VAStepLine {
     return ctx.keypairs[keyword];
   }
 
+  public checkParams(
+    ctx: IWorkerContext,
+    step: VAStepData,
+    lineNumber: number,
+    line: string,
+    table: boolean,
+  ): monaco.editor.IMarkerData[] {
+    const problems: monaco.editor.IMarkerData[] = [];
+    const params = step.params.filter(p => p.type !== "table");
+    const words = this._words.filter(w => w.type === VAWordType.Numerical || w.type === VAWordType.Parameter);
+    const offsets = this.paramOffsets;
+    words.forEach((word, index) => {
+      const param = params[index];
+      if (param === undefined || isParamValid(ctx, param, word)) return;
+      const expected = param.type === "enum" ? (param.values || []).join(", ") : param.type;
+      problems.push({
+        severity: 4, // monaco.MarkerSeverity.Warning = 4
+        message: `${ctx.messages.paramMsg}: ${expected}`,
+        code: "param-type",
+        startLineNumber: lineNumber,
+        endLineNumber: lineNumber,
+        startColumn: this.keyword.length + offsets[index][0] + 1,
+        endColumn: this.keyword.length + offsets[index][1] + 1,
+      });
+    });
+    if (!table && step.params.some(p => p.type === "table")) problems.push({
+      severity: 4, // monaco.MarkerSeverity.Warning = 4
+      message: ctx.messages.tableMsg,
+      code: "table-required",
+      startLineNumber: lineNumber,
+      endLineNumber: lineNumber,
+      startColumn: getLineMinColumn(line),
+      endColumn: getLineMaxColumn(line),
+    });
+    return problems;
+  }
+
+  public getParam(step: VAStepData, column: number): VAStepParam {
+    const params = step.params.filter(p => p.type !== "table");
+    const offset = column - 1 - this.keyword.length;
+    let result = undefined;
+    this.paramOffsets.forEach(([start, end], index) => {
+      if (start <= offset && offset < end) result = params[index];
+    });
+    return result;
+  }
+
+  public getParamValues(step: VAStepData, column: number): string[] {
+    const param = this.getParam(step, column);
+    return param && param.type === "enum" ? param.values : undefined;
+  }
+
   public checkSyntax(
     ctx: IWorkerContext,
     lineNumber: number,
     line: string,
+    table: boolean = false,
   ): {
     decoration?: monaco.editor.IModelDeltaDecoration,
+    problems?: monaco.editor.IMarkerData[],
     error: boolean,
   } {
     if (this.invalid) return { error: false };
     const snippet = this.snippet;
     if (!snippet) return { error: false };
     const step = ctx.steplist[snippet];
-    if (step) return { error: false, decoration: stepDecoration(step, lineNumber) };
+    if (step) return {
+      error: false,
+      decoration: stepDecoration(step.kind, lineNumber),
+      problems: this.checkParams(ctx, step, lineNumber, line, table),
+    };
+    if (ctx.scenarios[snippet]) return {
+      error: false,
+      decoration: stepDecoration(17, lineNumber),
+    };
 
     const BreakException = {};
     let result = { error: true, decoration: undefined };
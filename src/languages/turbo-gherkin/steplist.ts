@@ -1,6 +1,12 @@
-import { IWorkerContext } from "./common";
+import { escapeSnippet, getTableCells, IWorkerContext } from "./common";
 import { VAStepLine } from "./stepline";
 
+export interface VAStepParam {
+  type: "string" | "number" | "date" | "boolean" | "table" | "enum";
+  values?: string[];
+  element?: string;
+}
+
 export interface VAStepInfo {
   filterText: string;
   insertText: string;
@@ -8,6 +14,7 @@ export interface VAStepInfo {
   documentation: string;
   kind: number;
   section: string;
+  params?: VAStepParam[];
 }
 
 export interface VAStepData {
@@ -16,9 +23,26 @@ export interface VAStepData {
   body: string[],
   documentation: string,
   insertText: string,
+  insertSnippet: string,
   sortText: string,
   section: string,
   kind: number,
+  params: VAStepParam[],
+}
+
+function getTableSnippet(body: string[], index: number): string[] {
+  return body.map(line => {
+    let result = "";
+    let offset = 0;
+    getTableCells(line).forEach(cell => {
+      const quoted = /^(["']).*\1$/.test(cell.text) ? 1 : 0;
+      const value = escapeSnippet(cell.text.substring(quoted, cell.text.length - quoted));
+      result += escapeSnippet(line.substring(offset, cell.startColumn - 1 + quoted));
+      result += `\${${++index}:${value}}`;
+      offset = cell.endColumn - 1 - quoted;
+    });
+    return result + escapeSnippet(line.substring(offset));
+  });
 }
 
 export function updateStepLabels(ctx: IWorkerContext) {
@@ -26,6 +50,8 @@ export function updateStepLabels(ctx: IWorkerContext) {
     let e = ctx.steplist[snippet] as VAStepData;
     e.label = e.head.inplaceElements(ctx);
     e.insertText = e.label + (e.body.length ? '\n' + e.body.join('\n') : '');
+    const body = getTableSnippet(e.body, e.head.paramOffsets.length);
+    e.insertSnippet = [e.head.inplaceSnippet(ctx)].concat(body).join('\n');
   }
 }
 
@@ -45,9 +71,11 @@ export function setStepList(ctx: IWorkerContext, msg: { list: string, clear: boo
       label: undefined,
       documentation: e.documentation,
       insertText: e.insertText,
+      insertSnippet: undefined,
       sortText: e.sortText,
       section: e.section,
       kind: e.kind,
+      params: e.params || [],
     };
     ctx.steplist[step.snippet] = data;
   });
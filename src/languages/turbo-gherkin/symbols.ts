@@ -0,0 +1,115 @@
+import { getLineMaxColumn, getLineMinColumn, IWorkerContext, IWorkerModel, VAToken } from './common';
+
+type DocumentSymbol = monaco.languages.DocumentSymbol;
+
+function symbolKind(section: string): monaco.languages.SymbolKind {
+  switch (section) {
+    case "feature": return 1; // monaco.languages.SymbolKind.Module = 1
+    case "variables": return 12; // monaco.languages.SymbolKind.Variable = 12
+    case "background": return 8; // monaco.languages.SymbolKind.Constructor = 8
+    case "scenario": return 5; // monaco.languages.SymbolKind.Method = 5
+    case "scenarioOutline": return 11; // monaco.languages.SymbolKind.Function = 11
+    case "examples": return 17; // monaco.languages.SymbolKind.Array = 17
+    default: return 2; // monaco.languages.SymbolKind.Namespace = 2
+  }
+}
+
+function createSymbol(
+  model: IWorkerModel,
+  lineNumber: number,
+  section: string,
+  name: string,
+  detail: string,
+): DocumentSymbol {
+  const line = model.getLineContent(lineNumber);
+  const range = {
+    startLineNumber: lineNumber,
+    startColumn: getLineMinColumn(line),
+    endLineNumber: lineNumber,
+    endColumn: getLineMaxColumn(line),
+  };
+  return {
+    name: name || detail,
+    detail: detail,
+    kind: symbolKind(section),
+    tags: [],
+    range: range,
+    selectionRange: range,
+    children: [],
+  };
+}
+
+function closeSymbol(model: IWorkerModel, symbol: DocumentSymbol, lineNumber: number) {
+  const start = symbol.selectionRange.startLineNumber;
+  while (lineNumber > start) {
+    const token = model.getLineToken(lineNumber).token;
+    if (token != VAToken.Empty && token != VAToken.Instruction && token != VAToken.Comment) break;
+    lineNumber--;
+  }
+  if (lineNumber <= start) return;
+  const endColumn = getLineMaxColumn(model.getLineContent(lineNumber));
+  symbol.range = { ...symbol.range, endLineNumber: lineNumber, endColumn };
+}
+
+export function getDocumentSymbols(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: {},
+): Array<DocumentSymbol> {
+  const result: Array<DocumentSymbol> = [];
+  const lineCount = model.getLineCount();
+  let feature: DocumentSymbol = undefined;
+  let section: DocumentSymbol = undefined;
+  let outline: DocumentSymbol = undefined;
+  let groups: Array<{ symbol: DocumentSymbol, indent: number }> = [];
+  const closeGroups = (lineNumber: number, indent: number = 0) => {
+    while (groups.length && groups[groups.length - 1].indent >= indent) {
+      closeSymbol(model, groups.pop().symbol, lineNumber);
+    }
+  }
+  const closeSection = (lineNumber: number) => {
+    closeGroups(lineNumber);
+    if (section) closeSymbol(model, section, lineNumber);
+    section = undefined;
+  }
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const line = model.getLineContent(lineNumber);
+    const token = model.getLineToken(lineNumber);
+    if (token.token == VAToken.Section) {
+      const key = ctx.matcher.getSection(line);
+      const index = line.indexOf(":");
+      const detail = line.substring(0, index).trim();
+      const name = line.substring(index + 1).trim();
+      const symbol = createSymbol(model, lineNumber, key, name, detail);
+      closeSection(lineNumber - 1);
+      if (key == "feature") {
+        if (outline) closeSymbol(model, outline, lineNumber - 1);
+        if (feature) closeSymbol(model, feature, lineNumber - 1);
+        feature = symbol;
+        outline = undefined;
+        result.push(symbol);
+        continue;
+      }
+      if (key == "examples" && outline) {
+        outline.children.push(section = symbol);
+        continue;
+      }
+      if (outline) closeSymbol(model, outline, lineNumber - 1);
+      outline = key == "scenario" || key == "scenarioOutline" ? symbol : undefined;
+      if (feature) feature.children.push(symbol); else result.push(symbol);
+      section = symbol;
+    } else if (token.token == VAToken.Asterisk || token.token == VAToken.Operator) {
+      closeGroups(lineNumber - 1, token.indent);
+      if (token.token == VAToken.Operator) continue;
+      const name = line.replace(/^\s*\*/, "").trim();
+      const symbol = createSymbol(model, lineNumber, undefined, name, "*");
+      const parent = groups.length ? groups[groups.length - 1].symbol : section;
+      if (parent) parent.children.push(symbol); else result.push(symbol);
+      groups.push({ symbol, indent: token.indent });
+    }
+  }
+  closeSection(lineCount);
+  if (outline) closeSymbol(model, outline, lineCount);
+  if (feature) closeSymbol(model, feature, lineCount);
+  return result;
+}
@@ -1,5 +1,11 @@
 import { getLineMaxColumn, getLineMinColumn, ISyntaxDecorations, IWorkerContext, IWorkerModel, VAToken } from './common';
 import { VAStepLine } from './stepline';
+import { checkOutlines } from './outline';
+import { checkVariables } from './references';
+import { checkSections } from './sections';
+import { checkTags } from './tags';
+import { checkBlocks, checkIndentation } from './indentation';
+import { applySyntaxRules } from './rules';
 
 function groupDecoration(lineNumber: number, style: string = undefined): monaco.editor.IModelDeltaDecoration {
   return {
@@ -13,6 +19,16 @@ function groupDecoration(lineNumber: number, style: string = undefined): monaco.
   };
 }
 
+function hasTable(model: IWorkerModel, lineNumber: number): boolean {
+  const lineCount = model.getLineCount();
+  for (let i = lineNumber + 1; i <= lineCount; i++) {
+    const token = model.getLineToken(i).token;
+    if (token == VAToken.Empty || token == VAToken.Comment) continue;
+    return token == VAToken.Parameter;
+  }
+  return false;
+}
+
 export function checkSyntax(
   ctx: IWorkerContext,
   model: IWorkerModel,
@@ -45,10 +61,12 @@ export function checkSyntax(
     if (ctx.matcher.metatags.test(line)) { continue; }
     const step = new VAStepLine(ctx.matcher, line);
     if (step.keyword) steps[lineNumber] = true;
-    const syntax = step.checkSyntax(ctx, lineNumber, line);
+    const syntax = step.checkSyntax(ctx, lineNumber, line, hasTable(model, lineNumber));
+    if (syntax.problems) syntax.problems.forEach(e => problems.push(e));
     if (syntax.error) problems.push({
       severity: 8, // monaco.MarkerSeverity.Error = 8
       message: ctx.messages.syntaxMsg,
+      code: "unknown-step",
       startLineNumber: lineNumber,
       endLineNumber: lineNumber,
       startColumn: getLineMinColumn(line),
@@ -71,11 +89,17 @@ export function checkSyntax(
       groups.push({ lineNumber, folding: token.folding });
     }
   }
+  checkOutlines(ctx, model, problems);
+  checkVariables(ctx, model, problems);
+  checkSections(ctx, model, problems);
+  checkTags(ctx, model, problems);
+  checkIndentation(ctx, model, problems);
+  checkBlocks(ctx, model, problems);
   groups.forEach(e => {
     for (let i = e.lineNumber + 1; i <= e.folding; ++i) if (steps[i]) {
       decorations.push(groupDecoration(e.lineNumber, "vanessa-style-bold"));
       break;
     }
   });
-  return { decorations, problems };
+  return { decorations, problems: applySyntaxRules(ctx, model, problems) };
 }
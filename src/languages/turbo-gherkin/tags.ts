@@ -0,0 +1,64 @@
+import { IWorkerContext, IWorkerModel, VAToken } from './common';
+
+export interface VATag {
+  name: string;
+  description: string;
+}
+
+export interface VATagRange {
+  name: string;
+  startColumn: number;
+  endColumn: number;
+}
+
+export function setTags(ctx: IWorkerContext, msg: { data: string, clear: boolean }) {
+  if (msg.clear) ctx.tags = {};
+  const obj = JSON.parse(msg.data);
+  for (let key in obj) {
+    const name = key.replace(/^@/, "");
+    ctx.tags[name.toLowerCase()] = { name, description: obj[key] };
+  }
+}
+
+export function getTag(ctx: IWorkerContext, name: string): VATag {
+  return ctx.tags[name.toLowerCase()];
+}
+
+export function getTagRanges(line: string): VATagRange[] {
+  const result: VATagRange[] = [];
+  const regexp = /@([^\s@]*)/g;
+  let match = undefined;
+  while ((match = regexp.exec(line)) !== null) {
+    const startColumn = match.index + 1;
+    const endColumn = startColumn + match[0].length;
+    result.push({ name: match[1], startColumn, endColumn });
+  }
+  return result;
+}
+
+export function getTagAt(line: string, column: number): VATagRange {
+  return getTagRanges(line).filter(e => e.startColumn <= column && column <= e.endColumn)[0];
+}
+
+export function checkTags(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  problems: monaco.editor.IMarkerData[],
+) {
+  if (Object.keys(ctx.tags).length == 0) return;
+  const lineCount = model.getLineCount();
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    if (model.getLineToken(lineNumber).token != VAToken.Instruction) continue;
+    getTagRanges(model.getLineContent(lineNumber)).forEach(e => {
+      if (e.name && getTag(ctx, e.name) === undefined) problems.push({
+        severity: 4, // monaco.MarkerSeverity.Warning = 4
+        message: `${ctx.messages.tagMsg}: @${e.name}`,
+        code: "unknown-tag",
+        startLineNumber: lineNumber,
+        endLineNumber: lineNumber,
+        startColumn: e.startColumn,
+        endColumn: e.endColumn,
+      });
+    });
+  }
+}
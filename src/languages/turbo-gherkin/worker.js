@@ -1,5 +1,35 @@
+/* global self, postMessage */
 const w = require('./worker')
+const MessageType = require('./common').MessageType
+const queue = []
+
+function isStaleMessage (msg) {
+  if (!msg.id || !msg.uri) return false
+  return queue.some(e => e.uri === msg.uri &&
+    (e.type === MessageType.ChangeModel || e.type === MessageType.UpdateModel))
+}
+
+function processQueue () {
+  if (queue.length === 0) return
+  try {
+    const msg = queue.shift()
+    if (isStaleMessage(msg)) return postMessage({ id: msg.id, success: false, canceled: true })
+    if (msg.id) postMessage({ id: msg.id, started: true })
+    const res = w.process(msg)
+    if (res) postMessage(res)
+  } finally {
+    if (queue.length) setTimeout(processQueue)
+  }
+}
+
 self.onmessage = function (e) {
-  const res = w.process(e.data);
-  if (res) postMessage(res)
+  const msg = e.data
+  if (msg.type === MessageType.CancelMessage) {
+    for (let i = 0; i < queue.length; i++) {
+      if (queue[i].id === msg.data) { queue.splice(i, 1); break }
+    }
+    return
+  }
+  queue.push(msg)
+  if (queue.length === 1) setTimeout(processQueue)
 }
@@ -1,13 +1,20 @@
 import { IWorkerContext, MessageType, type2str, WorkerMessage } from './common'
 import { KeywordMatcher } from './matcher';
-import { getHiperlinks, getLinkData, setImports } from './hiperlinks';
+import { getDefinition, getHiperlinks, getLinkData, setImports } from './hiperlinks';
 import { getCompletions } from './completion';
 import { getCodeActions } from './quickfix';
 import { getCodeFolding } from './folding';
-import { WorkerModel } from './model';
+import { getModelLanguage, WorkerModel } from './model';
 import { getLineHover } from './hover';
 import { checkSyntax } from './syntax';
+import { getDocumentSymbols } from './symbols';
+import { getFormattingEdits } from './formatting';
+import { getReferences, getRenameEdits, getRenameLocation } from './references';
+import { getSignatureHelp } from './signature';
 import { setStepList, updateStepLabels } from './steplist';
+import { getScenarioDefinition, setWorkspaceFiles, updateScenarios } from './workspace';
+import { setTags } from './tags';
+import { setSyntaxRules } from './rules';
 
 const context: IWorkerContext = {
   matcher: undefined,
@@ -16,16 +23,74 @@ const context: IWorkerContext = {
   keypairs: {},
   elements: {},
   variables: {},
+  scenarios: {},
+  tags: {},
+  rules: {},
+  stats: {},
   messages: {
     syntaxMsg: "Syntax error",
     soundHint: "Sound",
+    placeholderMsg: "Placeholder has no matching column in Examples",
+    columnMsg: "Examples column is not used in the steps",
+    cellsMsg: "Row cell count does not match the Examples header",
+    renameMsg: "Only variables defined in this file can be renamed",
+    renameNameMsg: "Variable name must be a single word of letters and digits",
+    paramMsg: "Argument does not match the parameter type",
+    tableMsg: "Step requires a table",
+    unusedMsg: "Variable is never used",
+    duplicateMsg: "Variable is defined more than once",
+    scenarioMsg: "Scenario name is already used",
+    stepsMsg: "Section has no steps",
+    rowsMsg: "Examples have no data rows",
+    examplesMsg: "Scenario Outline has no Examples",
+    tagMsg: "Unknown tag",
+    tagFix: "Did you mean",
+    indentMixMsg: "Indentation mixes tabs and spaces",
+    indentBlockMsg: "Step should be indented deeper than the block opening line",
+    indentLevelMsg: "Indentation does not match any outer level",
+    blockElseMsg: "Else has no matching If at the same indentation",
+    blockExceptMsg: "Except has no matching Try at the same indentation",
+    blockTryMsg: "Try block has no matching Except",
   }
 }
 
 const contentMap = new Map<string, WorkerModel>();
+const matcherMap = new Map<string, KeywordMatcher>();
+let keywords: string = undefined;
+
+function setKeywords(context: IWorkerContext, msg: { data: any }) {
+  keywords = msg.data;
+  matcherMap.clear();
+  context.matcher = new KeywordMatcher(keywords);
+  context.matcher.setKeypairs(context.keypairs);
+  context.matcher.setMetatags(context.metatags);
+}
+
+function getMatcher(context: IWorkerContext, language: string): KeywordMatcher {
+  if (!language || !context.matcher) return context.matcher;
+  if (!matcherMap.has(language)) {
+    const matcher = new KeywordMatcher(keywords, language);
+    matcher.setKeypairs(context.keypairs);
+    matcher.setMetatags(context.metatags);
+    matcherMap.set(language, matcher);
+  }
+  const matcher = matcherMap.get(language);
+  return matcher.language ? matcher : context.matcher;
+}
+
+function getModelContext(context: IWorkerContext, model: WorkerModel): IWorkerContext {
+  const matcher = model ? getMatcher(context, model.language) : context.matcher;
+  return matcher === context.matcher ? context : { ...context, matcher };
+}
 
 function setModelContent(context: IWorkerContext, msg: any) {
-  contentMap.set(msg.uri, new WorkerModel(context.matcher, msg));
+  const matcher = getMatcher(context, getModelLanguage(msg.content));
+  contentMap.set(msg.uri, new WorkerModel(matcher, msg));
+}
+
+function changeModelContent(context: IWorkerContext, msg: any) {
+  const model = getWorkerModel(msg);
+  if (model) model.applyChanges(msg, language => getMatcher(context, language));
 }
 
 function getWorkerModel(msg: any) {
@@ -44,7 +109,10 @@ function setElements(context: IWorkerContext, msg: { values: string, clear: bool
   if (msg.clear) context.elements = {};
   let obj = JSON.parse(msg.values);
   for (let key in obj) {
-    context.elements[key.toLowerCase()] = obj[key];
+    const data = obj[key];
+    const value = typeof data === "object" ? data.value : data;
+    const kind = typeof data === "object" ? data.kind : undefined;
+    context.elements[key.toLowerCase()] = { name: key, value, kind };
   }
 }
 
@@ -59,19 +127,32 @@ function setVariables(ctx: IWorkerContext, msg: { values: string, clear: boolean
 function provide(msg: any) {
   const model = getWorkerModel(msg);
   if (!model) return undefined;
+  const ctx = getModelContext(context, model);
   switch (msg.type) {
     case MessageType.GetCodeFolding:
       return getCodeFolding(model);
     case MessageType.GetCodeActions:
-      return getCodeActions(context, model, msg);
+      return getCodeActions(ctx, model, msg);
+    case MessageType.GetDefinition:
+      return getDefinition(ctx, model, msg) || getScenarioDefinition(ctx, model, msg);
+    case MessageType.GetDocumentSymbols:
+      return getDocumentSymbols(ctx, model, msg);
+    case MessageType.GetFormattingEdits:
+      return getFormattingEdits(ctx, model, msg);
     case MessageType.GetHiperlinks:
-      return getHiperlinks(context, model, msg);
+      return getHiperlinks(ctx, model, msg);
     case MessageType.GetLineHover:
-      return getLineHover(context, model, msg);
+      return getLineHover(ctx, model, msg);
     case MessageType.GetLinkData:
-      return getLinkData(context, model, msg);
+      return getLinkData(ctx, model, msg);
+    case MessageType.GetReferences:
+      return getReferences(ctx, model, msg);
+    case MessageType.GetRenameLocation:
+      return getRenameLocation(ctx, model, msg);
+    case MessageType.GetRenameEdits:
+      return getRenameEdits(ctx, model, msg);
     case MessageType.CheckSyntax:
-      return checkSyntax(context, model, msg);
+      return checkSyntax(ctx, model, msg);
   }
 }
 
@@ -80,21 +161,26 @@ export function process(msg: WorkerMessage) {
   console.debug("worker:", type2str(msg.type), msg.versionId, msg.uri);
   switch (msg.type) {
     case MessageType.GetCompletions:
-      const suggestions = getCompletions(context, msg);
-      return { id: msg.id, data: { suggestions }, success: true };
+      const model = getWorkerModel(msg);
+      const completions = getCompletions(getModelContext(context, model), model, msg);
+      return { id: msg.id, data: completions, success: true };
+    case MessageType.GetSignatureHelp:
+      const signature = getSignatureHelp(getModelContext(context, getWorkerModel(msg)), msg);
+      return { id: msg.id, data: signature, success: true };
     case MessageType.SetKeywords:
-      context.matcher = new KeywordMatcher(msg.data);
-      context.matcher.setKeypairs(context.keypairs);
-      context.matcher.setMetatags(context.metatags)
+      setKeywords(context, msg);
       updateStepLabels(context);
+      updateScenarios(context, language => getMatcher(context, language));
       break;
     case MessageType.SetKeypairs:
       context.keypairs = msg.data;
       context.matcher?.setKeypairs(context.keypairs);
+      matcherMap.forEach(matcher => matcher.setKeypairs(context.keypairs));
       break;
     case MessageType.SetMetatags:
       context.metatags = msg.data;
       context.matcher?.setMetatags(context.metatags)
+      matcherMap.forEach(matcher => matcher.setMetatags(context.metatags));
       break;
     case MessageType.SetMessages:
       setMessages(context, msg);
@@ -113,9 +199,24 @@ export function process(msg: WorkerMessage) {
     case MessageType.SetImports:
       setImports(msg.data);
       break;
+    case MessageType.SetTags:
+      setTags(context, msg);
+      break;
+    case MessageType.SetSyntaxRules:
+      setSyntaxRules(context, msg);
+      break;
+    case MessageType.SetCompletionStats:
+      context.stats = JSON.parse(msg.data);
+      break;
+    case MessageType.SetWorkspaceFiles:
+      setWorkspaceFiles(context, msg, language => getMatcher(context, language));
+      break;
     case MessageType.UpdateModel:
       setModelContent(context, msg);
       break;
+    case MessageType.ChangeModel:
+      changeModelContent(context, msg);
+      break;
     case MessageType.DeleteModel:
       contentMap.delete(msg.uri);
       break;
@@ -0,0 +1,89 @@
+import { IWorkerContext, IWorkerModel, VAToken } from './common';
+import { VADefinition } from './hiperlinks';
+import { KeywordMatcher } from './matcher';
+import { getModelLanguage, WorkerModel } from './model';
+
+export interface VAScenario {
+  name: string;
+  path: string;
+  lineNumber: number;
+  steps: string[];
+}
+
+interface IWorkspaceFile {
+  path: string;
+  content: string;
+}
+
+let workspaceFiles: IWorkspaceFile[] = [];
+
+function addScenarios(ctx: IWorkerContext, file: IWorkspaceFile, getMatcher: (language: string) => KeywordMatcher) {
+  const content = file.content.split(/\r\n|\r|\n/);
+  const matcher = getMatcher(getModelLanguage(content));
+  const model = new WorkerModel(matcher, { content, versionId: 0, tabSize: 4 });
+  const lineCount = model.getLineCount();
+  let scenario: VAScenario = undefined;
+  for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+    const line = model.getLineContent(lineNumber);
+    switch (model.getLineToken(lineNumber).token) {
+      case VAToken.Empty:
+      case VAToken.Instruction:
+        continue;
+      case VAToken.Section:
+        scenario = undefined;
+        const section = matcher.getSection(line);
+        if (section != "scenario" && section != "scenarioOutline") continue;
+        const name = line.substring(line.indexOf(":") + 1).trim();
+        const snippet = matcher.getSnippet(name);
+        if (!snippet || ctx.scenarios[snippet]) continue;
+        scenario = { name, path: file.path, lineNumber, steps: [] };
+        ctx.scenarios[snippet] = scenario;
+        continue;
+      default:
+        if (scenario) scenario.steps.push(line);
+    }
+  }
+}
+
+export function updateScenarios(ctx: IWorkerContext, getMatcher: (language: string) => KeywordMatcher) {
+  ctx.scenarios = {};
+  if (ctx.matcher) workspaceFiles.forEach(file => addScenarios(ctx, file, getMatcher));
+}
+
+export function setWorkspaceFiles(
+  ctx: IWorkerContext,
+  msg: { data: string, clear: boolean },
+  getMatcher: (language: string) => KeywordMatcher,
+) {
+  if (msg.clear) workspaceFiles = [];
+  const files = JSON.parse(msg.data) as IWorkspaceFile[];
+  files.forEach(file => {
+    workspaceFiles = workspaceFiles.filter(e => e.path !== file.path);
+    workspaceFiles.push(file);
+  });
+  updateScenarios(ctx, getMatcher);
+}
+
+export function getScenario(ctx: IWorkerContext, line: string): VAScenario {
+  const match = line.match(ctx.matcher.step);
+  if (!match) return undefined;
+  const snippet = ctx.matcher.getSnippet(line.substring(match[0].length));
+  if (ctx.steplist[snippet]) return undefined;
+  return ctx.scenarios[snippet];
+}
+
+export function getScenarioDefinition(
+  ctx: IWorkerContext,
+  model: IWorkerModel,
+  msg: { lineNumber: number, column: number }
+): VADefinition {
+  const scenario = getScenario(ctx, model.getLineContent(msg.lineNumber));
+  if (scenario === undefined) return null;
+  const range = {
+    startLineNumber: scenario.lineNumber,
+    startColumn: 1,
+    endLineNumber: scenario.lineNumber,
+    endColumn: 1,
+  };
+  return { key: scenario.name, file: scenario.path, range, scenario: true };
+}
@@ -33,7 +33,8 @@ export class SyntaxManager {
     const value = lines.map(line =>
       model.normalizeIndentation(line)
     ).join(model.getEOL());
-    model.setValue(value);
+    const range = model.getFullModelRange();
+    this.editor.executeEdits("vanessa-editor", [{ range, text: value }]);
   }
 
   get errors(): number[] {
@@ -74,6 +74,8 @@ export class VanessaEditor implements IVanessaEditor {
   public setInsertSpaces = (arg: boolean) => this.editor.getModel().updateOptions({ insertSpaces: arg });
   public setDetectIndentation = (arg: boolean) => this.editor.updateOptions({ detectIndentation: arg });
   public normalizeIndentation = () => this.syntaxManager.normalizeIndentation();
+  public getDocumentSymbols = () => VanessaGherkinProvider.instance.getDocumentSymbols(this.getModel())
+    .then(symbols => this.fireEvent(VanessaEditorEvent.DOCUMENT_SYMBOLS, JSON.stringify(symbols)));
 
   public checkSyntax = () => { if (this.syntaxManager) this.syntaxManager.checkSyntax(); }
   public get enableSyntaxCheck(): boolean { return this.syntaxManager !== null; }
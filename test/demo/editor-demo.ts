@@ -24,7 +24,26 @@ export function show() {
 
   const messages = {
     syntaxMsg: "Ошибка синтаксиса",
-    soundHint: "Озвучить"
+    soundHint: "Озвучить",
+    placeholderMsg: "Для параметра нет колонки в примерах",
+    columnMsg: "Колонка примеров не используется в шагах",
+    cellsMsg: "Количество ячеек не совпадает с заголовком примеров",
+    unusedMsg: "Переменная не используется",
+    duplicateMsg: "Переменная определена повторно",
+    scenarioMsg: "Имя сценария уже используется",
+    stepsMsg: "В разделе нет шагов",
+    rowsMsg: "В примерах нет строк данных",
+    examplesMsg: "У структуры сценария нет примеров",
+    tagMsg: "Неизвестный тег",
+    tagFix: "Возможно, имелся в виду",
+    indentMixMsg: "В отступе смешаны табуляции и пробелы",
+    indentBlockMsg: "Шаг должен иметь больший отступ, чем начало блока",
+    indentLevelMsg: "Отступ не совпадает ни с одним внешним уровнем",
+    blockElseMsg: "Иначе без соответствующего Если на том же уровне",
+    blockExceptMsg: "Исключение без соответствующей Попытки на том же уровне",
+    blockTryMsg: "Попытка без соответствующего Исключения",
+    renameMsg: "Переименовать можно только переменные этого файла",
+    renameNameMsg: "Имя переменной должно быть одним словом из букв и цифр",
   }
 
   const keypairs = { if: ['then'], Если: ['Тогда'] }
@@ -42,4 +42,20 @@ describe('Сворачивание кода', function () {
     expect(ranges).to.deep.include({ start: 55, end: 59 });
     expect(ranges).to.deep.include({ start: 57, end: 59 });
   });
+  it('Пересчет свертки после изменения текста', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const model = monaco.editor.createModel(content, language.id);
+    const folding = () => provider.provideFoldingRanges(model, undefined, undefined) as Promise<FoldingRanges>;
+    folding().then(() => {
+      model.applyEdits([{ range: new monaco.Range(24, 1, 24, 1), text: "\t\t\t\tИ новый шаг\n" }]);
+      folding().then(res => {
+        const ranges = res.map(e => ({ start: e.start, end: e.end }));
+        expect(ranges).to.deep.include({ start: 21, end: 27 });
+        expect(ranges).to.deep.include({ start: 23, end: 26 });
+        expect(ranges).to.deep.include({ start: 31, end: 42 });
+        model.dispose();
+        done();
+      });
+    });
+  });
 })
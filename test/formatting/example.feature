@@ -0,0 +1,20 @@
+# language: ru
+@GherkinProvider
+
+Функционал: Выравнивание таблиц
+
+Сценарий: Таблицы шагов
+	И я использую таблицы
+| "Город" | "Улица" |
+		|"Вятка"|"Спасская"|
+  | "Тула" | "Металлистов \| 1" |
+	И таблица без изменений
+		| "Ключ"  |
+		| "Товар" |
+
+Структура сценария: Таблица примеров
+	Когда я ввожу <Значение>
+
+Примеры:
+| Значение | Описание |
+| 1 | "Первый | пример" |
@@ -0,0 +1,44 @@
+import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provider';
+import { language } from '../../src/languages/turbo-gherkin/configuration';
+import { initGherkinProvider } from '../provider'
+import { content } from './example.file.js'
+let expect = require('chai').expect;
+
+describe('Форматирование таблиц', function () {
+  type TextEdit = monaco.languages.TextEdit;
+  const options = { tabSize: 4, insertSpaces: false };
+  let provider: VanessaGherkinProvider;
+  let model: monaco.editor.ITextModel;
+  const lines = (edits: TextEdit[]) => edits.map(e => e.range.startLineNumber);
+  const text = (edits: TextEdit[], lineNumber: number) => edits.filter(e => e.range.startLineNumber === lineNumber)[0].text;
+  before(() => {
+    provider = initGherkinProvider();
+    model = monaco.editor.createModel(content, language.id);
+  });
+  it('Выравнивание колонок и отступа таблицы шага', (done) => {
+    const promise = provider.provideDocumentFormattingEdits(model, options, undefined) as Promise<TextEdit[]>;
+    promise.then(edits => {
+      expect(lines(edits)).to.deep.equal([8, 9, 10, 19, 20]);
+      expect(text(edits, 8)).to.equal('\t\t| "Город" | "Улица"            |');
+      expect(text(edits, 9)).to.equal('\t\t| "Вятка" | "Спасская"         |');
+      expect(text(edits, 10)).to.equal('\t\t| "Тула"  | "Металлистов \\| 1" |');
+      done();
+    });
+  });
+  it('Кавычки сохраняют символ разделителя', (done) => {
+    const promise = provider.provideDocumentFormattingEdits(model, options, undefined) as Promise<TextEdit[]>;
+    promise.then(edits => {
+      expect(text(edits, 19)).to.equal('\t| Значение | Описание          |');
+      expect(text(edits, 20)).to.equal('\t| 1        | "Первый | пример" |');
+      done();
+    });
+  });
+  it('Форматирование выделенного фрагмента', (done) => {
+    const range = new monaco.Range(19, 1, 20, 1);
+    const promise = provider.provideDocumentRangeFormattingEdits(model, range, options, undefined) as Promise<TextEdit[]>;
+    promise.then(edits => {
+      expect(lines(edits)).to.deep.equal([19, 20]);
+      done();
+    });
+  });
+})
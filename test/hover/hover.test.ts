@@ -17,7 +17,7 @@ describe('Всплывающие подсказки', function () {
   let provider: VanessaGherkinProvider;
 
   const position = (lineNumber: number) => new monaco.Position(lineNumber, model.getLineMaxColumn(lineNumber) - 1);
-  const hover = (lineNumber: number) => provider.provideHover(model, position(lineNumber)) as Promise<monaco.languages.Hover>;
+  const hover = (lineNumber: number) => provider.provideHover(model, position(lineNumber), undefined) as Promise<monaco.languages.Hover>;
 
   const range = (lineNumber: number) => {
     const line = model.getLineContent(lineNumber);
@@ -85,4 +85,22 @@ describe('Всплывающие подсказки', function () {
       done();
     })
   });
+  it('Отмена запроса подсказки', (done) => {
+    const source = new monaco.CancellationTokenSource();
+    const promise = provider.provideHover(model, position(7), source.token) as Promise<monaco.languages.Hover>;
+    source.cancel();
+    promise.then(() => done(new Error('Запрос не отменен')), error => {
+      expect(error).to.have.property('name', 'Canceled');
+      done();
+    });
+  });
+  it('Отмена запроса после изменения модели', (done) => {
+    const promise = hover(7);
+    model.applyEdits([{ range: new monaco.Range(1, 1, 1, 1), text: ' ' }]);
+    model.applyEdits([{ range: new monaco.Range(1, 1, 1, 2), text: '' }]);
+    promise.then(() => done(new Error('Запрос не отменен')), error => {
+      expect(error).to.have.property('name', 'Canceled');
+      done();
+    });
+  });
 })
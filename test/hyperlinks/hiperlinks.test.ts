@@ -57,4 +57,119 @@ describe('Переменные и гиперссылки', function () {
       })
     }, 100);
   });
+  it('Переход к определению', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const definition = (lineNumber: number, column: number) => provider.provideDefinition(
+      model, new monaco.Position(lineNumber, column), undefined) as Promise<monaco.languages.Location>;
+    definition(49, 20).then(result => {
+      expect(result).to.have.property('uri').to.equal(model.uri);
+      expect(result).to.have.property('range').to.deep.equal({ startLineNumber: 31, startColumn: 15, endLineNumber: 31, endColumn: 25 });
+      definition(43, 17).then(result => {
+        expect(result).to.have.property('range').to.deep.equal({ startLineNumber: 8, startColumn: 2, endLineNumber: 8, endColumn: 35 });
+        definition(52, 25).then(result => {
+          expect(result).to.have.property('uri').to.have.property('scheme', 'import');
+          expect(result.uri).to.have.property('path', 'C:\\1C\\ФайлИмпорта.feature');
+          expect(result.uri).to.have.property('fragment', 'Контрагенты.Продавец.Код');
+          expect(result.range).to.have.property('startLineNumber', 6);
+          done();
+        });
+      });
+    });
+  });
+  it('Поиск ссылок на переменную', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const context = { includeDeclaration: true };
+    const promise = provider.provideReferences(model, new monaco.Position(49, 20), context, undefined) as Promise<monaco.languages.Location[]>;
+    promise.then(result => {
+      expect(result).to.be.an('array').to.have.lengthOf(3);
+      expect(result.map(e => model.getValueInRange(e.range))).to.deep.equal(['Вятка', 'Вятка', 'Вятка']);
+      expect(result.map(e => e.range.startLineNumber)).to.deep.equal([31, 48, 49]);
+      done();
+    });
+  });
+  it('Переименование переменной', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const promise = provider.provideRenameEdits(model, new monaco.Position(31, 6), 'Киров', undefined) as Promise<monaco.languages.WorkspaceEdit>;
+    promise.then(result => {
+      expect(result).to.have.property('edits').to.be.an('array').to.have.lengthOf(3);
+      const edits = result.edits.map((e: monaco.languages.WorkspaceTextEdit) => e.edit);
+      expect(edits.map(e => e.text)).to.deep.equal(['Киров', 'Киров', 'Киров']);
+      expect(edits[2].range).to.deep.equal({ startLineNumber: 49, startColumn: 18, endLineNumber: 49, endColumn: 23 });
+      done();
+    });
+  });
+  it('Ссылки на переменную внутри строки', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const source = monaco.editor.createModel(content + '\t\tИ я ввожу "Скажи $ТекстДиктора$ громко"\n', language.id);
+    const lineNumber = source.getLineCount() - 1;
+    const context = { includeDeclaration: true };
+    const promise = provider.provideReferences(source, new monaco.Position(8, 5), context, undefined) as Promise<monaco.languages.Location[]>;
+    promise.then(result => {
+      expect(result.map(e => e.range.startLineNumber)).to.deep.equal([8, 43, lineNumber]);
+      expect(result[2].range).to.deep.equal({ startLineNumber: lineNumber, startColumn: 21, endLineNumber: lineNumber, endColumn: 33 });
+      source.dispose();
+      done();
+    });
+  });
+  it('Переименование переменной в недопустимое имя', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const rename = (newName: string) => provider.provideRenameEdits(model, new monaco.Position(31, 6), newName, undefined) as Promise<monaco.languages.WorkspaceEdit & monaco.languages.Rejection>;
+    Promise.all(['', 'Нижний Новгород', 'Город.Киров', '"Киров"'].map(rename)).then(results => {
+      results.forEach(result => {
+        expect(result).to.have.property('rejectReason', 'Variable name must be a single word of letters and digits');
+        expect(result.edits).to.be.empty;
+      });
+      done();
+    });
+  });
+  it('Автоподстановка составных ссылок', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const source = monaco.editor.createModel(content + '\t\tИ строка "Контрагенты."\n\t\tИ улица "Вятка."\n', language.id);
+    const completions = (lineNumber: number) => provider.provideCompletionItems(source,
+      new monaco.Position(lineNumber, source.getLineMaxColumn(lineNumber) - 1), undefined, undefined) as Promise<monaco.languages.CompletionList>;
+    const lineNumber = source.getLineCount() - 2;
+    completions(lineNumber).then(result => {
+      expect(result.suggestions.map(e => e.label)).to.deep.equal(['Продавец', 'Покупатель']);
+      expect(result.suggestions[1]).to.have.property('detail', 'Ромашка');
+      expect(result.suggestions[1]).to.have.property('range').to.deep.equal(new monaco.Range(lineNumber, 25, lineNumber, 25));
+      completions(lineNumber + 1).then(result => {
+        source.dispose();
+        expect(result.suggestions.map(e => e.label)).to.deep.equal(['Город', 'Улица']);
+        expect(result.suggestions[1]).to.have.property('detail', 'Спасская');
+        done();
+      });
+    });
+  });
+  it('Подсказка со значением переменной', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const hover = (lineNumber: number, column: number) => provider.provideHover(
+      model, new monaco.Position(lineNumber, column), undefined) as Promise<monaco.languages.Hover>;
+    hover(49, 25).then(result => {
+      expect(result).to.have.property('range').to.deep.equal({ startLineNumber: 49, startColumn: 18, endLineNumber: 49, endColumn: 29 });
+      expect(result.contents.map(e => e.value)).to.deep.equal([
+        '**Вятка\\.Улица** = Спасская',
+        '| Город | Улица |\n| --- | --- |\n| Вятка | Спасская |',
+      ]);
+      hover(51, 40).then(result => {
+        expect(result.contents).to.have.lengthOf(3);
+        expect(result.contents[0].value).to.equal('**Контрагенты\\.Продавец** = Василёк');
+        expect(result.contents[2].value).to.equal('C:\\\\1C\\\\ФайлИмпорта\\.feature:6');
+        done();
+      });
+    });
+  });
+  it('Подсказка шага со значением переменной', (done) => {
+    const provider = VanessaGherkinProvider.instance;
+    const source = monaco.editor.createModel(content + '\t\tИ я нажимаю на кнопку с именем "ТекстДиктора"\n', language.id);
+    const lineNumber = source.getLineCount() - 1;
+    const promise = provider.provideHover(source, new monaco.Position(lineNumber, 38), undefined) as Promise<monaco.languages.Hover>;
+    promise.then(result => {
+      expect(result.range).to.have.property('startColumn', 3);
+      expect(result.contents).to.have.lengthOf(3);
+      expect(result.contents[0].value).to.include('#info:я-нажимаю-на-кнопку-с-именем');
+      expect(result.contents[2].value).to.equal('**ТекстДиктора** = "Привет, Ванесса\\!"');
+      source.dispose();
+      done();
+    });
+  });
 })
@@ -3,6 +3,7 @@ import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provid
 import { language } from '../../src/languages/turbo-gherkin/configuration';
 import { initGherkinProvider } from '../provider';
 import * as steplist from './steplist.json'
+import * as fullStepList from '../../example/StepList/ru.json'
 let expect = require('chai').expect;
 
 const elements = {
@@ -23,7 +24,7 @@ describe('Автоподстановка шагов при вводе', function
   let model: monaco.editor.ITextModel;
   let provider: VanessaGherkinProvider;
   const position = (lineNumber: number) => new monaco.Position(lineNumber, model.getLineMaxColumn(lineNumber));
-  const competitions = (lineNumber: number = 1) => provider.provideCompletionItems(model, position(lineNumber)) as Promise<monaco.languages.CompletionList>;
+  const competitions = (lineNumber: number = 1) => provider.provideCompletionItems(model, position(lineNumber), undefined, undefined) as Promise<monaco.languages.CompletionList>;
   before(() => {
     provider = initGherkinProvider();
     provider.setStepList(JSON.stringify(steplist), true);
@@ -40,7 +41,8 @@ describe('Автоподстановка шагов при вводе', function
       expect(step).to.have.property('detail', 'UI.Таблицы.Выбор таблицы');
       expect(step).to.have.property('documentation', 'Выбирает таблицу для работы');
       expect(step).to.have.property('filterText', 'я буду работать с таблицей');
-      expect(step).to.have.property('insertText', 'Затем я буду работать с таблицей "ТаблицаФормы"\n');
+      expect(step).to.have.property('insertText', 'Затем я буду работать с таблицей "${1:ТаблицаФормы}"\n');
+      expect(step).to.have.property('insertTextRules', monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet);
       expect(step).to.have.property('label', 'я буду работать с таблицей "ТаблицаФормы"');
       expect(step).to.have.property('kind', 1);
       done();
@@ -56,7 +58,7 @@ describe('Автоподстановка шагов при вводе', function
       expect(step).to.have.property('detail', 'UI.Таблицы.Выбор таблицы');
       expect(step).to.have.property('documentation', 'Выбирает таблицу для работы');
       expect(step).to.have.property('filterText', 'И это значит что я буду работать с таблицей');
-      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "ТаблицаФормы"\n');
+      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "${1:ТаблицаФормы}"\n');
       expect(step).to.have.property('label', 'я буду работать с таблицей "ТаблицаФормы"');
       expect(step).to.have.property('kind', 1);
       done();
@@ -72,7 +74,7 @@ describe('Автоподстановка шагов при вводе', function
       expect(step).to.have.property('detail', 'UI.Таблицы.Выбор таблицы');
       expect(step).to.have.property('documentation', 'Выбирает таблицу для работы');
       expect(step).to.have.property('filterText', 'И это значит что я буду работать с таблицей');
-      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "ТаблицаФормы"\n');
+      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "${1:ТаблицаФормы}"\n');
       expect(step).to.have.property('label', 'я буду работать с таблицей "ТаблицаФормы"');
       expect(step).to.have.property('kind', 1);
       done();
@@ -88,12 +90,51 @@ describe('Автоподстановка шагов при вводе', function
       expect(step).to.have.property('detail', 'UI.Таблицы.Выбор таблицы');
       expect(step).to.have.property('documentation', 'Выбирает таблицу для работы');
       expect(step).to.have.property('filterText', 'И это значит что я буду работать с таблицей');
-      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "ТаблицаФормы"\n');
+      expect(step).to.have.property('insertText', 'И это значит что я буду работать с таблицей "${1:ТаблицаФормы}"\n');
       expect(step).to.have.property('label', 'я буду работать с таблицей "ТаблицаФормы"');
       expect(step).to.have.property('kind', 1);
       done();
     });
   });
+  it('Нечеткий поиск шага по словам в любом порядке', (done) => {
+    const content = "\t\tИ кнопку нажимю";
+    model = monaco.editor.createModel(content, language.id);
+    competitions().then(result => {
+      expect(result.suggestions).to.have.lengthOf(6);
+      expect(result).to.have.property('incomplete', true);
+      const items = result.suggestions.filter(e => e.filterText === 'И кнопку нажимю');
+      expect(items).to.have.lengthOf(1);
+      expect(items[0]).to.have.property('label', 'В открытой форме в таблице \"Номенклатура\" я нажимаю кнопку выбора у реквизита \"Наименование\"');
+      result.suggestions.sort((a, b) => a.sortText < b.sortText ? -1 : (a.sortText > b.sortText ? 1 : 0));
+      expect(result.suggestions[0]).to.equal(items[0]);
+      done();
+    });
+  });
+  it('Ограничение числа подсказок шагов', (done) => {
+    provider.setStepList(JSON.stringify(fullStepList), true);
+    model = monaco.editor.createModel("\t\tИ я нажимаю", language.id);
+    competitions().then(result => {
+      expect(result.suggestions).to.have.lengthOf(50);
+      expect(result).to.have.property('incomplete', true);
+      model = monaco.editor.createModel("\t\tИ ", language.id);
+      competitions().then(result => {
+        provider.setStepList(JSON.stringify(steplist), true);
+        expect(result.suggestions.length).to.be.above(50);
+        expect(result).not.to.have.property('incomplete');
+        done();
+      });
+    });
+  });
+  it('Нечеткий поиск шага по началу слов', (done) => {
+    const content = "\t\tИ раб таб";
+    model = monaco.editor.createModel(content, language.id);
+    competitions().then(result => {
+      const items = result.suggestions.filter(e => e.filterText === 'И раб таб');
+      expect(items).to.have.lengthOf(1);
+      expect(items[0]).to.have.property('label', 'я буду работать с таблицей "ТаблицаФормы"');
+      done();
+    });
+  });
   it('Подсказка с заменой элементов формы', (done) => {
     const content = "\t\tИ список";
     model = monaco.editor.createModel(content, language.id);
@@ -102,7 +143,7 @@ describe('Автоподстановка шагов при вводе', function
       result.suggestions.sort((a, b) => a.kind - b.kind);
       let step = result.suggestions[1];
       expect(step).to.have.property('filterText', 'И в открытой форме в таблице я нажимаю кнопку выбора у реквизита');
-      expect(step).to.have.property('insertText', 'И В открытой форме в таблице \"Номенклатура\" я нажимаю кнопку выбора у реквизита \"Наименование\"\n');
+      expect(step).to.have.property('insertText', 'И В открытой форме в таблице \"${1:Номенклатура}\" я нажимаю кнопку выбора у реквизита \"${2:Наименование}\"\n');
       expect(step).to.have.property('label', 'В открытой форме в таблице \"Номенклатура\" я нажимаю кнопку выбора у реквизита \"Наименование\"');
       done();
     });
@@ -115,7 +156,7 @@ describe('Автоподстановка шагов при вводе', function
       result.suggestions.sort((a, b) => a.kind - b.kind);
       let step = result.suggestions[5];
       expect(step).to.have.property('filterText', 'И таблица содержит строки');
-      expect(step).to.have.property('insertText', 'И таблица \"Номенклатура\" содержит строки:\n\t| ИмяКолонки1 | ИмяКолонки2 |\n\t| Значение1 | Значение2 |\n');
+      expect(step).to.have.property('insertText', 'И таблица \"${1:Номенклатура}\" содержит строки:\n\t| ${2:ИмяКолонки1} | ${3:ИмяКолонки2} |\n\t| ${4:Значение1} | ${5:Значение2} |\n');
       expect(step).to.have.property('label', 'таблица \"Номенклатура\" содержит строки:');
       done();
     });
@@ -124,7 +165,7 @@ describe('Автоподстановка шагов при вводе', function
     const content = "\t\tИ поле <Контрагент>";
     model = monaco.editor.createModel(content, language.id);
     const position = new monaco.Position(1, model.getLineMaxColumn(1) - 3);
-    (provider.provideCompletionItems(model, position) as Promise<monaco.languages.CompletionList>).then(result => {
+    (provider.provideCompletionItems(model, position, undefined, undefined) as Promise<monaco.languages.CompletionList>).then(result => {
       expect(result).to.be.an('object').to.have.property('suggestions').to.be.an('array').to.have.lengthOf(3);
       result.suggestions.sort((a, b) => a.label < b.label ? -1 : (a.label > b.label ? 1 : 0));
       let range = { startLineNumber: 1, startColumn: 10, endLineNumber: 1, endColumn: 22 }
@@ -137,4 +178,77 @@ describe('Автоподстановка шагов при вводе', function
       done();
     });
   });
+  it('Сортировка шагов по частоте использования', (done) => {
+    const content = "\t\tИ список";
+    model = monaco.editor.createModel(content, language.id);
+    provider.setCompletionStats(JSON.stringify({}));
+    provider.addCompletionStats('таблица содержит строки');
+    provider.addCompletionStats('таблица содержит строки');
+    const stats = JSON.parse(provider.getCompletionStats());
+    expect(stats).to.have.property('таблица содержит строки').to.have.property('count', 2);
+    competitions().then(result => {
+      provider.setCompletionStats(JSON.stringify({}));
+      result.suggestions.sort((a, b) => a.sortText < b.sortText ? -1 : (a.sortText > b.sortText ? 1 : 0));
+      let step = result.suggestions[0];
+      expect(step).to.have.property('filterText', 'И таблица содержит строки');
+      expect(step).to.have.property('command').to.have.property('arguments').to.deep.equal(['таблица содержит строки']);
+      done();
+    });
+  });
+  it('Подстановка имен элементов формы', (done) => {
+    const formElements = {
+      Номенклатура: { value: 'Таблица номенклатуры', kind: 'table' },
+      Наименование: { value: 'Поле наименования', kind: 'field' },
+      Комментарий: 'Поле комментария',
+    };
+    provider.setElements(JSON.stringify(formElements), true);
+    const content = '\t\tИ В открытой форме в таблице "" я нажимаю кнопку выбора у реквизита "Наименование"';
+    model = monaco.editor.createModel(content, language.id);
+    const position = new monaco.Position(1, 33);
+    (provider.provideCompletionItems(model, position, undefined, undefined) as Promise<monaco.languages.CompletionList>).then(result => {
+      provider.setElements(JSON.stringify(elements), true);
+      const items = result.suggestions.filter(e => e.kind === monaco.languages.CompletionItemKind.Field);
+      items.sort((a, b) => a.label < b.label ? -1 : (a.label > b.label ? 1 : 0));
+      expect(items.map(e => e.label)).to.deep.equal(['Комментарий', 'Номенклатура']);
+      expect(items[1]).to.have.property('detail', 'Таблица номенклатуры');
+      expect(items[1]).to.have.property('insertText', '"Номенклатура"');
+      done();
+    });
+  });
+  it('Подстановка заголовков разделов', (done) => {
+    const content = "# language: ru\nФункционал: Тест\n\nСтруктура сценария: Первый\n\tИ шаг\n\n";
+    model = monaco.editor.createModel(content, language.id);
+    const sections = (lineNumber: number) => competitions(lineNumber).then(result => result.suggestions
+      .filter(e => e.kind === monaco.languages.CompletionItemKind.Snippet));
+    sections(2).then(items => {
+      expect(items.map(e => e.label)).to.deep.equal(['Функция', 'Функциональность', 'Функционал', 'Свойство']);
+      expect(items[2]).to.have.property('insertText', 'Функционал: $1\n\t$0');
+      sections(7).then(items => {
+        expect(items.map(e => e.label)).to.deep.equal(['Пример', 'Сценарий', 'Структура сценария', 'Примеры']);
+        expect(items[3]).to.have.property('insertText', 'Примеры:\n\t| $1 |\n\t| $0 |');
+        expect(items[3]).to.have.property('insertTextRules', monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet);
+        done();
+      });
+    });
+  });
+  it('Подсказка параметров при вводе аргумента', (done) => {
+    const content = '\t\tИ В открытой форме в таблице "Номен';
+    model = monaco.editor.createModel(content, language.id);
+    const signature = (lineNumber: number, column: number) => provider.provideSignatureHelp(model,
+      new monaco.Position(lineNumber, column), undefined, undefined) as Promise<monaco.languages.SignatureHelpResult>;
+    signature(1, model.getLineMaxColumn(1)).then(result => {
+      expect(result.value).to.have.property('activeParameter', 0);
+      expect(result.value.signatures).to.have.lengthOf(2);
+      expect(result.value.signatures[0].parameters[0]).to.have.property('label').to.deep.equal([27, 39]);
+      model.setValue('\t\tИ В открытой форме в таблице "Номенклатура" я нажимаю кнопку выбора у реквизита "Наим');
+      signature(1, model.getLineMaxColumn(1)).then(result => {
+        expect(result.value).to.have.property('activeParameter', 1);
+        expect(result.value.signatures).to.have.lengthOf(1);
+        signature(1, 25).then(result => {
+          expect(result).to.be.undefined;
+          done();
+        });
+      });
+    });
+  });
 })
@@ -0,0 +1,27 @@
+# language: ru
+@GherkinProvider
+
+Функционал: Структура документа
+	Описание функционала
+
+Контекст:
+	Дано Я открываю "ТекстМодуля"
+
+Переменные:
+	Товар = "Табуретка"
+
+@Tag
+Сценарий: Простой сценарий
+	* Первая группа
+		И простой шаг
+		* Вложенная группа
+			И еще один шаг
+	* Вторая группа
+		И последний шаг
+
+Структура сценария: Сценарий с примерами
+	Когда я ввожу <Значение>
+
+Примеры:
+	| Значение |
+	| 1        |
@@ -0,0 +1,2 @@
+import f from './example.feature'
+export const content = String(f)
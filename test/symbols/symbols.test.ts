@@ -0,0 +1,46 @@
+import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provider';
+import { language } from '../../src/languages/turbo-gherkin/configuration';
+import { initGherkinProvider } from '../provider'
+import { content } from './example.file.js'
+let expect = require('chai').expect;
+
+describe('Структура документа', function () {
+  type DocumentSymbol = monaco.languages.DocumentSymbol;
+  let result: DocumentSymbol[];
+  const lines = (e: DocumentSymbol) => ({ start: e.range.startLineNumber, end: e.range.endLineNumber });
+  before((done) => {
+    const provider: VanessaGherkinProvider = initGherkinProvider();
+    const model = monaco.editor.createModel(content, language.id);
+    const promise = provider.provideDocumentSymbols(model, undefined) as Promise<DocumentSymbol[]>;
+    promise.then(res => { result = res; done(); })
+  });
+  it('Функционал содержит все секции', () => {
+    expect(result).to.be.an('array').to.have.lengthOf(1);
+    expect(result[0]).to.have.property('name', 'Структура документа');
+    expect(result[0]).to.have.property('detail', 'Функционал');
+    expect(lines(result[0])).to.deep.equal({ start: 4, end: 27 });
+    expect(result[0].children.map(e => e.name)).to.deep.equal(
+      ['Контекст', 'Переменные', 'Простой сценарий', 'Сценарий с примерами']);
+  });
+  it('Границы секций без тегов и пустых строк', () => {
+    const children = result[0].children;
+    expect(lines(children[0])).to.deep.equal({ start: 7, end: 8 });
+    expect(lines(children[1])).to.deep.equal({ start: 10, end: 11 });
+    expect(lines(children[2])).to.deep.equal({ start: 14, end: 20 });
+  });
+  it('Группы шагов звездочкой (*)', () => {
+    const groups = result[0].children[2].children;
+    expect(groups.map(e => e.name)).to.deep.equal(['Первая группа', 'Вторая группа']);
+    expect(lines(groups[0])).to.deep.equal({ start: 15, end: 18 });
+    expect(lines(groups[1])).to.deep.equal({ start: 19, end: 20 });
+    expect(groups[0].children).to.have.lengthOf(1);
+    expect(lines(groups[0].children[0])).to.deep.equal({ start: 17, end: 18 });
+  });
+  it('Примеры внутри структуры сценария', () => {
+    const outline = result[0].children[3];
+    expect(lines(outline)).to.deep.equal({ start: 22, end: 27 });
+    expect(outline.children).to.have.lengthOf(1);
+    expect(outline.children[0]).to.have.property('detail', 'Примеры');
+    expect(lines(outline.children[0])).to.deep.equal({ start: 25, end: 27 });
+  });
+})
@@ -0,0 +1,15 @@
+# language: ru
+# encoding: utf-8
+@VAEditorTest
+
+Функционал: Структура сценария
+
+Структура сценария: Проверка примеров
+	Когда я ввожу <Значение> и <Количество>
+	И в таблице "<Таблица>" есть строка
+
+Примеры:
+	| Значение | Таблица | Лишняя |
+	| 1        | "Товары" | 2     |
+	| 2        | "Услуги" |
+	| 3        | "Работы | и | услуги" | 4 |
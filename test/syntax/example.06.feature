@@ -0,0 +1,8 @@
+# language: en
+@VAEditorTest
+
+Feature: Language header
+
+Scenario: Keywords of the header language
+	When unknown english step
+	Когда неизвестный русский шаг
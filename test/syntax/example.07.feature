@@ -0,0 +1,8 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Язык файла
+
+Сценарий: Ключевые слова из заголовка
+	When unknown english step
+	Когда неизвестный русский шаг
@@ -0,0 +1,12 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Переменные
+
+Переменные:
+	ИмяКнопки = "ФормаЗаписать"
+	ИмяФормы = "ФормаСписка"
+	ИмяКнопки = "ФормаЗакрыть"
+
+Сценарий: Использование переменных
+	Затем клик на текст "$ИмяКнопки$"
@@ -0,0 +1,23 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Структура разделов
+
+Контекст:
+
+Сценарий: Первый сценарий
+	Затем клик на текст "Записать"
+
+Сценарий: Первый  сценарий
+	Затем клик на текст "Закрыть"
+
+Сценарий: Пустой сценарий
+
+Структура сценария: Без примеров
+	Затем клик на текст "<Кнопка>"
+
+Структура сценария: Пустые примеры
+	Затем клик на текст "<Кнопка>"
+
+Примеры:
+	| Кнопка |
@@ -0,0 +1,17 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Настройка правил
+
+Переменные:
+	ИмяКнопки = "ФормаЗаписать"
+	ИмяФормы = "ФормаСписка"
+
+Сценарий: Первый сценарий
+	Затем клик на текст "$ИмяКнопки$"
+	# vanessa-disable-next-line unknown-step
+	И я делаю что-то неизвестное
+	И я делаю что-то неизвестное
+
+# vanessa-disable-next-line
+Сценарий: Пустой сценарий
@@ -0,0 +1,13 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Отступы вложенных блоков
+
+Сценарий: Вложенные блоки
+	Если есть картинка "ИмяКартинки" Тогда
+	Затем клик на текст "Записать"
+	Попытка
+		Затем клик на текст "Закрыть"
+	  Затем клик на текст "Отмена"
+	Исключение
+		Затем клик на текст "Отмена"
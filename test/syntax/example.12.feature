@@ -0,0 +1,23 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Блоки условий и попыток
+
+Сценарий: Баланс блоков
+	Если есть картинка "ИмяКартинки" Тогда
+		Затем клик на текст "Записать"
+	ИначеЕсли есть картинка "ИмяКартинки" Тогда
+		Затем клик на текст "Закрыть"
+	Иначе
+		Затем клик на текст "Отмена"
+	Затем клик на текст "Записать"
+	Иначе
+		Затем клик на текст "Отмена"
+	Попытка
+		Затем клик на текст "Закрыть"
+	Исключение
+		Затем клик на текст "Отмена"
+	Исключение
+		Затем клик на текст "Отмена"
+	Попытка
+		Затем клик на текст "Закрыть"
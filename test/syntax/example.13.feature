@@ -0,0 +1,13 @@
+# language: ru
+
+Функционал: Типизированные параметры шагов
+
+Сценарий: Проверка типов аргументов
+	И я ввожу число 10 в поле "Цена"
+	И я ввожу число "десять" в поле "Цена"
+	И я устанавливаю дату "01.01.2021"
+	И я устанавливаю дату "завтра"
+	И я устанавливаю флаг "Истина"
+	И я устанавливаю флаг "Может быть"
+	И я выбираю режим "Проведение"
+	И я выбираю режим "Удаление"
@@ -0,0 +1,14 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Циклы
+
+Сценарий: Отступы в цикле
+	И я делаю 10 раз
+		И я нажимаю ENTER
+	И я делаю 10 раз
+	И я нажимаю ENTER
+
+Сценарий: Цикл без отступа
+И я делаю 10 раз
+И я нажимаю ENTER
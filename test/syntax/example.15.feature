@@ -0,0 +1,12 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Пользовательские метатеги
+
+Сценарий: Попытка с пользовательскими метатегами
+	Начало
+		Затем клик на текст "Закрыть"
+	Перехват
+		Затем клик на текст "Отмена"
+	Перехват
+		Затем клик на текст "Отмена"
@@ -2,7 +2,29 @@ import file01 from './example.01.feature'
 import file02 from './example.02.feature'
 import file03 from './example.03.feature'
 import file04 from './example.04.feature'
+import file05 from './example.05.feature'
+import file06 from './example.06.feature'
+import file07 from './example.07.feature'
+import file08 from './example.08.feature'
+import file09 from './example.09.feature'
+import file10 from './example.10.feature'
+import file11 from './example.11.feature'
+import file12 from './example.12.feature'
+import file13 from './example.13.feature'
+import file14 from './example.14.feature'
+import file15 from './example.15.feature'
 export const f01 = String(file01)
 export const f02 = String(file02)
 export const f03 = String(file03)
 export const f04 = String(file04)
+export const f05 = String(file05)
+export const f06 = String(file06)
+export const f07 = String(file07)
+export const f08 = String(file08)
+export const f09 = String(file09)
+export const f10 = String(file10)
+export const f11 = String(file11)
+export const f12 = String(file12)
+export const f13 = String(file13)
+export const f14 = String(file14)
+export const f15 = String(file15)
@@ -2,6 +2,7 @@ import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provid
 import { language } from '../../src/languages/turbo-gherkin/configuration';
 import { initGherkinProvider } from '../provider';
 import * as content from './example.file.js'
+import * as steplist from '../../example/StepList/ru.json'
 let expect = require('chai').expect;
 let provider;
 
@@ -31,6 +32,13 @@ class SyntaxChecker {
   }
 }
 
+const typedSteps = [
+  { insertText: 'И я ввожу число 10 в поле "Цена"', params: [{ type: 'number' }, { type: 'string' }] },
+  { insertText: 'И я устанавливаю дату "01.01.2021"', params: [{ type: 'date' }] },
+  { insertText: 'И я устанавливаю флаг "Истина"', params: [{ type: 'boolean' }] },
+  { insertText: 'И я выбираю режим "Запись"', params: [{ type: 'enum', values: ['Запись', 'Проведение', 'Отмена'] }] },
+].map(e => ({ ...e, filterText: e.insertText, sortText: e.insertText, documentation: e.insertText, kind: 1, section: 'Тест' }));
+
 function range(lineNumber: number) {
   return new monaco.Range(lineNumber, 1, lineNumber, 1);
 }
@@ -81,13 +89,32 @@ describe('Проверка синтаксиса', function () {
   });
   it('Шаги с условными операторами', (done) => {
     const checker = new SyntaxChecker(content.f03);
+    provider.setSyntaxRules(JSON.stringify({ "indent-block": "off" }), true);
     checker.check().then(() => {
+      provider.setSyntaxRules(JSON.stringify({}), true);
       expect(checker.markers).to.be.an('array').to.have.lengthOf(2);
       expect(checker.value(0)).to.equal('Если есть картинка "ИмяКартинки"');
       expect(checker.value(1)).to.equal('И я нажимаю ENTER Тогда');
       done();
     });
   });
+  it('Отступы после условных операторов', (done) => {
+    const checker = new SyntaxChecker(content.f03);
+    checker.check().then(() => {
+      const blocks = checker.markers.filter(m => m.code === 'indent-block');
+      expect(blocks.map(m => m.startLineNumber)).to.deep.equal([10, 13]);
+      done();
+    });
+  });
+  it('Неиспользуемые переменные в файле с группами', (done) => {
+    const checker = new SyntaxChecker(content.f04);
+    checker.check().then(() => {
+      expect(checker.markers.map(m => `${m.startLineNumber}:${m.code}`)).to.deep.equal(['11:unused-variable', '12:unused-variable', '13:unused-variable']);
+      expect(checker.markers.map(m => checker.model.getValueInRange(m))).to.deep.equal(['ТекстДиктора', 'Описание', 'НомерСтроки']);
+      checker.markers.forEach(m => expect(m).to.have.property('severity', monaco.MarkerSeverity.Warning));
+      done();
+    });
+  });
   it('Декорация групп пиктограммами', (done) => {
     let model = monaco.editor.createModel(content.f04, language.id);
     provider.provideFoldingRanges(model, undefined, undefined).then(() => {
@@ -141,4 +168,126 @@ describe('Проверка синтаксиса', function () {
       });
     });
   });
+  it('Параметры структуры сценария и таблица примеров', (done) => {
+    const checker = new SyntaxChecker(content.f05);
+    checker.check().then(() => {
+      const markers = (lineNumber: number) => checker.markers.filter(m => m.startLineNumber === lineNumber);
+      expect(checker.markers).to.be.an('array').to.have.lengthOf(5);
+      expect(markers(8)).to.have.lengthOf(2);
+      expect(markers(8).map(m => checker.model.getValueInRange(m))).to.include('<Количество>');
+      expect(markers(12)).to.have.lengthOf(1);
+      expect(markers(12)[0]).to.have.property('severity', monaco.MarkerSeverity.Warning);
+      expect(checker.model.getValueInRange(markers(12)[0])).to.equal('Лишняя');
+      expect(markers(13)).to.be.empty;
+      expect(markers(14)).to.have.lengthOf(1);
+      expect(markers(15)).to.be.empty;
+      done();
+    });
+  });
+  it('Ключевые слова по заголовку языка файла', (done) => {
+    const en = new SyntaxChecker(content.f06);
+    const ru = new SyntaxChecker(content.f07);
+    Promise.all([en.check(), ru.check()]).then(() => {
+      expect(en.markers).to.have.lengthOf(1);
+      expect(en.markers[0]).to.have.property('startLineNumber', 7);
+      expect(ru.markers).to.have.lengthOf(1);
+      expect(ru.markers[0]).to.have.property('startLineNumber', 8);
+      done();
+    });
+  });
+  it('Неиспользуемые и повторные переменные', (done) => {
+    const checker = new SyntaxChecker(content.f08);
+    checker.check().then(() => {
+      expect(checker.markers).to.have.lengthOf(2);
+      const unused = checker.markers.filter(m => m.startLineNumber === 8)[0];
+      expect(checker.model.getValueInRange(unused)).to.equal('ИмяФормы');
+      expect(unused).to.have.property('tags').to.deep.equal([monaco.MarkerTag.Unnecessary]);
+      const duplicate = checker.markers.filter(m => m.startLineNumber === 9)[0];
+      expect(checker.model.getValueInRange(duplicate)).to.equal('ИмяКнопки');
+      done();
+    });
+  });
+  it('Повторные имена сценариев и пустые разделы', (done) => {
+    const checker = new SyntaxChecker(content.f09);
+    checker.check().then(() => {
+      const lines = checker.markers.map(m => m.startLineNumber).sort((a, b) => a - b);
+      expect(lines).to.deep.equal([6, 11, 14, 16, 22]);
+      checker.markers.forEach(m => expect(m).to.have.property('severity', monaco.MarkerSeverity.Warning));
+      done();
+    });
+  });
+  it('Настройка правил проверки синтаксиса', (done) => {
+    const checker = new SyntaxChecker(content.f10);
+    checker.check().then(() => {
+      expect(checker.markers.map(m => m.code).sort()).to.deep.equal(['unknown-step', 'unused-variable']);
+      const step = checker.markers.filter(m => m.code === 'unknown-step')[0];
+      expect(step).to.have.property('startLineNumber', 14);
+      expect(step).to.have.property('severity', monaco.MarkerSeverity.Error);
+      provider.setSyntaxRules(JSON.stringify({ "unused-variable": "off", "unknown-step": "Warning" }), true);
+      checker.check().then(() => {
+        provider.setSyntaxRules(JSON.stringify({}), true);
+        expect(checker.markers).to.have.lengthOf(1);
+        expect(checker.markers[0]).to.have.property('code', 'unknown-step');
+        expect(checker.markers[0]).to.have.property('severity', monaco.MarkerSeverity.Warning);
+        done();
+      });
+    });
+  });
+  it('Отступы вложенных блоков', (done) => {
+    const checker = new SyntaxChecker(content.f11);
+    checker.check().then(() => {
+      const codes = (lineNumber: number) => checker.markers.filter(m => m.startLineNumber === lineNumber).map(m => m.code).sort();
+      expect(checker.markers).to.have.lengthOf(3);
+      expect(codes(8)).to.deep.equal(['indent-block']);
+      expect(codes(11)).to.deep.equal(['indent-level', 'indent-mixed']);
+      done();
+    });
+  });
+  it('Отступы в теле цикла', (done) => {
+    const checker = new SyntaxChecker(content.f14);
+    checker.check().then(() => {
+      const result = checker.markers.map(m => `${m.startLineNumber}:${m.code}`);
+      expect(result).to.deep.equal(['10:indent-block', '14:indent-block']);
+      done();
+    });
+  });
+  it('Баланс блоков условий и попыток', (done) => {
+    const checker = new SyntaxChecker(content.f12);
+    checker.check().then(() => {
+      const result = checker.markers.map(m => `${m.startLineNumber}:${m.code}`).sort();
+      expect(result).to.deep.equal(['14:block-else', '20:block-except', '22:block-try']);
+      checker.markers.forEach(m => expect(m).to.have.property('severity', monaco.MarkerSeverity.Error));
+      done();
+    });
+  });
+  it('Попытки с пользовательскими метатегами', (done) => {
+    const metatags = ["try", "except", "попытка", "исключение"];
+    provider.setMetatags(JSON.stringify(metatags.concat(["Начало", "Перехват"])));
+    const checker = new SyntaxChecker(content.f15);
+    checker.check().then(() => {
+      const result = checker.markers.map(m => `${m.startLineNumber}:${m.code}`);
+      expect(result).to.deep.equal(['11:block-except']);
+      provider.setMetatags(JSON.stringify(metatags));
+      done();
+    });
+  });
+  it('Типы параметров шагов и выбор значения', (done) => {
+    provider.setStepList(JSON.stringify(typedSteps));
+    const checker = new SyntaxChecker(content.f13);
+    checker.check().then(() => {
+      const result = checker.markers.map(m => `${m.startLineNumber}:${m.code}`).sort();
+      expect(result).to.deep.equal(['11:param-type', '13:param-type', '7:param-type', '9:param-type']);
+      const values = checker.markers.map(m => checker.model.getValueInRange(m)).sort();
+      expect(values).to.deep.equal(['"Может быть"', '"Удаление"', '"десять"', '"завтра"']);
+      const index = checker.markers.map(m => m.startLineNumber).indexOf(13);
+      checker.action(index).then((act: monaco.languages.CodeActionList) => {
+        provider.setStepList(JSON.stringify(steplist), true);
+        expect(act.actions.map(e => e.title)).to.deep.equal(['Запись', 'Проведение', 'Отмена']);
+        const edit = (act.actions[1].edit.edits[0] as monaco.languages.WorkspaceTextEdit).edit;
+        expect(edit).to.have.property('text', '"Проведение"');
+        expect(edit.range).to.deep.equal(new monaco.Range(13, 20, 13, 30));
+        done();
+      });
+    });
+  });
 })
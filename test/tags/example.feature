@@ -0,0 +1,9 @@
+# language: ru
+@VAEditorTest
+@smoke @Regress
+
+Функционал: Теги
+
+@smok
+Сценарий: Первый сценарий
+	Затем клик на текст "Записать"
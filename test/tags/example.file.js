@@ -0,0 +1,2 @@
+import f1 from './example.feature'
+export const content = String(f1)
@@ -0,0 +1,61 @@
+import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provider';
+import { language } from '../../src/languages/turbo-gherkin/configuration';
+import { initGherkinProvider } from '../provider'
+import { content } from './example.file.js'
+let expect = require('chai').expect;
+
+const tags = {
+  "@VAEditorTest": "Тесты редактора",
+  smoke: "Дымовые тесты",
+  regress: "Регрессионные тесты",
+}
+
+describe('Реестр тегов', function () {
+  let model: monaco.editor.ITextModel;
+  let provider: VanessaGherkinProvider;
+  before(() => {
+    provider = initGherkinProvider();
+    provider.setTags(JSON.stringify(tags), true);
+    model = monaco.editor.createModel(content, language.id);
+  });
+  after(() => {
+    provider.setTags(JSON.stringify({}), true);
+    model.dispose();
+  });
+  it('Автоподстановка после символа @', (done) => {
+    const position = new monaco.Position(3, 11);
+    const promise = provider.provideCompletionItems(model, position, undefined, undefined) as Promise<monaco.languages.CompletionList>;
+    promise.then(result => {
+      const labels = result.suggestions.map(e => e.label);
+      expect(labels).to.deep.equal(['@VAEditorTest', '@smoke', '@regress']);
+      expect(result.suggestions[2]).to.have.property('range').to.deep.equal(new monaco.Range(3, 8, 3, 16));
+      done();
+    });
+  });
+  it('Подсказка с описанием тега', (done) => {
+    const promise = provider.provideHover(model, new monaco.Position(3, 3), undefined) as Promise<monaco.languages.Hover>;
+    promise.then(result => {
+      expect(result.range).to.deep.equal(new monaco.Range(3, 1, 3, 7));
+      expect(result.contents).to.have.lengthOf(2);
+      expect(result.contents[0].value).to.equal('**@smoke**');
+      expect(result.contents[1].value).to.equal('Дымовые тесты');
+      done();
+    });
+  });
+  it('Предупреждение о неизвестном теге', (done) => {
+    provider.checkSyntax(model).then(() => {
+      const markers = monaco.editor.getModelMarkers({ owner: "syntax", resource: model.uri });
+      expect(markers).to.have.lengthOf(1);
+      expect(markers[0]).to.have.property('severity', monaco.MarkerSeverity.Warning);
+      expect(model.getValueInRange(markers[0])).to.equal('@smok');
+      const context = { markers, only: undefined, trigger: undefined };
+      const range = new monaco.Range(7, 1, 7, 6);
+      const promise = provider.provideCodeActions(model, range, context, undefined) as Promise<monaco.languages.CodeActionList>;
+      promise.then(act => {
+        expect(act.actions[0].title).to.include('@smoke');
+        expect(act.actions[0].edit.edits[0]).to.have.property('edit').to.have.property('text', '@smoke');
+        done();
+      });
+    });
+  });
+})
@@ -0,0 +1,60 @@
+import { MessageType } from '../../src/languages/turbo-gherkin/common';
+import { VanessaGherkinProvider, getWorkerConfig, resetWorker, restartWorker } from '../../src/languages/turbo-gherkin/provider';
+import { language } from '../../src/languages/turbo-gherkin/configuration';
+import { initGherkinProvider } from '../provider'
+import { content } from '../hover/example.file.js'
+let expect = require('chai').expect;
+
+describe('Фоновый процесс', function () {
+  let model: monaco.editor.ITextModel;
+  let provider: VanessaGherkinProvider;
+  const config = (type: MessageType) => getWorkerConfig().filter(e => e.type === type) as any[];
+  before(() => {
+    provider = initGherkinProvider();
+    model = monaco.editor.createModel(content, language.id);
+  });
+  after(() => {
+    provider.setVariables(JSON.stringify({}), true);
+    model.dispose();
+  });
+  it('Порядок повторной отправки настроек', () => {
+    const types = getWorkerConfig().map(e => e.type);
+    expect(types[0]).to.equal(MessageType.SetKeywords);
+    expect(types[1]).to.equal(MessageType.SetKeypairs);
+    expect(types.indexOf(MessageType.SetSteplist)).to.be.above(1);
+  });
+  it('Объединение накопительных настроек', () => {
+    provider.setVariables(JSON.stringify({ ИмяКнопки: 'ФормаЗаписать' }), true);
+    provider.setVariables(JSON.stringify({ ИмяТаблицы: 'Номенклатура' }));
+    provider.setVariables(JSON.stringify({ имякнопки: 'ФормаЗакрыть' }));
+    const list = config(MessageType.SetVariables);
+    expect(list).to.have.lengthOf(1);
+    expect(list[0]).to.have.property('clear', true);
+    expect(JSON.parse(list[0].values)).to.deep.equal({ ИмяТаблицы: 'Номенклатура', имякнопки: 'ФормаЗакрыть' });
+    expect(config(MessageType.SetSteplist)).to.have.lengthOf(1);
+  });
+  it('Восстановление настроек после перезапуска', (done) => {
+    restartWorker('Перезапуск');
+    const position = new monaco.Position(14, model.getLineMaxColumn(14) - 1);
+    const promise = provider.provideHover(model, position, undefined) as Promise<monaco.languages.Hover>;
+    promise.then(result => {
+      expect(result).to.have.property('contents').to.be.an('array').to.have.lengthOf(3);
+      expect(result.contents[2].value).to.equal('**ИмяТаблицы** = Номенклатура');
+      done();
+    });
+  });
+  it('Отключение после повторных сбоев', (done) => {
+    resetWorker();
+    for (let i = 0; i < 4; i++) restartWorker('Сбой фонового процесса');
+    const position = new monaco.Position(14, model.getLineMaxColumn(14) - 1);
+    const hover = () => provider.provideHover(model, position, undefined) as Promise<monaco.languages.Hover>;
+    hover().then(() => done(new Error('Запрос выполнен')), error => {
+      expect(error).to.have.property('message', 'Сбой фонового процесса');
+      resetWorker();
+      hover().then(result => {
+        expect(result).to.have.property('contents').to.be.an('array').to.have.lengthOf(3);
+        done();
+      });
+    });
+  });
+})
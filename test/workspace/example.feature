@@ -0,0 +1,8 @@
+# language: ru
+@VAEditorTest
+
+Функционал: Вызов сценариев из других файлов
+
+Сценарий: Создание товара
+	И я создаю новый товар "Стол"
+	И я создаю несуществующий товар "Стул"
@@ -0,0 +1,4 @@
+import f1 from './example.feature'
+import f2 from './export.feature'
+export const content = String(f1)
+export const library = String(f2)
@@ -0,0 +1,9 @@
+# language: ru
+@ExportScenarios
+@VAEditorTest
+
+Функционал: Библиотека сценариев
+
+Сценарий: Я создаю новый товар "Наименование"
+	И я нажимаю кнопку с именем "ФормаСоздать"
+	И в поле с именем "Наименование" я ввожу текст "Наименование"
@@ -0,0 +1,48 @@
+import { VanessaGherkinProvider } from '../../src/languages/turbo-gherkin/provider';
+import { language } from '../../src/languages/turbo-gherkin/configuration';
+import { initGherkinProvider } from '../provider'
+import { content, library } from './example.file.js'
+let expect = require('chai').expect;
+
+describe('Сценарии из файлов проекта', function () {
+  let model: monaco.editor.ITextModel;
+  let provider: VanessaGherkinProvider;
+  const path = 'C:\\Project\\library.feature';
+  const position = (lineNumber: number) => new monaco.Position(lineNumber, model.getLineMaxColumn(lineNumber) - 1);
+  before(() => {
+    provider = initGherkinProvider();
+    provider.setWorkspaceFiles(JSON.stringify([{ path, content: library }]), true);
+    model = monaco.editor.createModel(content, language.id);
+  });
+  after(() => {
+    provider.setWorkspaceFiles(JSON.stringify([]), true);
+    model.dispose();
+  });
+  it('Ошибка только для несуществующего сценария', (done) => {
+    provider.checkSyntax(model).then(() => {
+      const markers = monaco.editor.getModelMarkers({ owner: "syntax", resource: model.uri });
+      expect(markers).to.have.lengthOf(1);
+      expect(markers[0]).to.have.property('startLineNumber', 8);
+      done();
+    });
+  });
+  it('Подсказка с шагами вызываемого сценария', (done) => {
+    const promise = provider.provideHover(model, position(7), undefined) as Promise<monaco.languages.Hover>;
+    promise.then(result => {
+      expect(result.contents).to.have.lengthOf(3);
+      expect(result.contents[0].value).to.include('Я создаю новый товар');
+      expect(result.contents[1].value).to.include(':7');
+      expect(result.contents[2].value).to.include('И я нажимаю кнопку с именем "ФормаСоздать"');
+      done();
+    });
+  });
+  it('Переход к определению сценария в другом файле', (done) => {
+    const promise = provider.provideDefinition(model, position(7), undefined) as Promise<monaco.languages.Location>;
+    promise.then(result => {
+      expect(result.uri.scheme).to.equal('scenario');
+      expect(result.uri.path).to.equal(path);
+      expect(result.range).to.have.property('startLineNumber', 7);
+      done();
+    });
+  });
+})